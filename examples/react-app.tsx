@@ -60,21 +60,18 @@ function AuthContent() {
     logout,
     refresh,
     getToken,
+    authFetch,
   } = useAuth();
 
   const handleApiCall = async () => {
-    const token = getToken();
-    if (!token) {
+    if (!(await getToken())) {
       alert('No access token available');
       return;
     }
 
     try {
-      const response = await fetch('https://api.example.com/user', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      // Attaches the token, refreshing it first if it is about to expire
+      const response = await authFetch('https://api.example.com/user');
       const data = await response.json();
       console.log('API Response:', data);
       alert('API call successful! Check console for response.');
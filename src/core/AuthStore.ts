@@ -0,0 +1,76 @@
+/**
+ * Observable authentication state
+ */
+
+import type { AuthState } from './types';
+
+export type AuthStateListener = (state: AuthState) => void;
+
+/**
+ * Compare state values, treating structurally equal objects (user claims) as
+ * the same so rebuilding them does not count as a change
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null || a instanceof Error) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Holds the authentication state as immutable snapshots and notifies
+ * subscribers when it changes. A snapshot is only replaced when a value
+ * changes, which is what React's useSyncExternalStore and other
+ * frameworks' stores expect.
+ */
+export class AuthStore {
+  private snapshot: Readonly<AuthState>;
+  private listeners = new Set<AuthStateListener>();
+
+  constructor(initialState: AuthState) {
+    this.snapshot = Object.freeze({ ...initialState });
+  }
+
+  /**
+   * Current state; the same object until the state changes
+   */
+  getSnapshot(): Readonly<AuthState> {
+    return this.snapshot;
+  }
+
+  /**
+   * Call listener with every new snapshot; returns a function that unsubscribes
+   */
+  subscribe(listener: AuthStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Merge changes into a new snapshot and notify subscribers, unless nothing changed
+   */
+  update(changes: Partial<AuthState>): void {
+    const current = this.snapshot;
+    const changed = (Object.keys(changes) as (keyof AuthState)[])
+      .filter(key => !isSameValue(changes[key], current[key]));
+
+    if (changed.length === 0) {
+      return;
+    }
+
+    const next: AuthState = { ...current };
+    for (const key of changed) {
+      (next as Record<keyof AuthState, unknown>)[key] = changes[key];
+    }
+    this.snapshot = Object.freeze(next);
+
+    for (const listener of [...this.listeners]) {
+      listener(this.snapshot);
+    }
+  }
+}
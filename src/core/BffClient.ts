@@ -0,0 +1,67 @@
+/**
+ * Browser client for a Backend-for-Frontend
+ */
+
+import { BFF_CSRF_HEADER } from './constants';
+
+export interface BffClientOptions {
+  /** Path prefix of the BFF routes (default: '') */
+  basePath?: string;
+}
+
+/**
+ * Talks to the routes served by createBffHandler(). Tokens stay on the
+ * server, so the browser only learns whether the user is logged in.
+ */
+export class BffClient {
+  private basePath: string;
+
+  constructor(options: BffClientOptions = {}) {
+    this.basePath = options.basePath ?? '';
+  }
+
+  /**
+   * Check whether the server holds a session for this browser
+   */
+  async isAuthenticated(): Promise<boolean> {
+    const response = await fetch(`${this.basePath}/session`, {
+      credentials: 'same-origin',
+      headers: { Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      return false;
+    }
+
+    const session: { isAuthenticated: boolean } = await response.json();
+    return session.isAuthenticated;
+  }
+
+  /**
+   * Navigate to the BFF login route, returning to returnTo (a local path) afterwards
+   */
+  login(returnTo: string = window.location.pathname): void {
+    window.location.href = `${this.basePath}/login?${new URLSearchParams({ returnTo })}`;
+  }
+
+  /**
+   * Navigate to the BFF logout route
+   */
+  logout(): void {
+    window.location.href = `${this.basePath}/logout`;
+  }
+
+  /**
+   * Call the API through the BFF proxy, which attaches the access token
+   */
+  fetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    headers.set(BFF_CSRF_HEADER, '1');
+
+    return fetch(`${this.basePath}/api${path.startsWith('/') ? path : `/${path}`}`, {
+      ...init,
+      headers,
+      credentials: 'same-origin',
+    });
+  }
+}
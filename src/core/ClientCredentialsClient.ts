@@ -0,0 +1,117 @@
+/**
+ * Confidential client for machine-to-machine grants
+ */
+
+import type {
+  ClientCredentialsConfig,
+  ClientCredentialsTokenOptions,
+  TokenExchangeParams,
+  TokenExchangeResponse,
+  TokenRequestParams,
+  TokenResponse,
+} from './types';
+import { DEFAULT_TOKEN_CACHE_BUFFER, GRANT_TYPE } from './constants';
+import { applyClientAuthentication } from './clientAuth';
+import { readJsonResponse, sendRequest } from './errors';
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * Obtains tokens with the client credentials grant (RFC 6749, section 4.4),
+ * cached per scope and audience, and exchanges tokens (RFC 8693). Holds
+ * client credentials, so use it on servers only.
+ */
+export class ClientCredentialsClient {
+  private config: ClientCredentialsConfig & Required<Pick<ClientCredentialsConfig, 'tokenEndpointAuthMethod' | 'cacheBuffer' | 'fetch'>>;
+  private cache = new Map<string, CachedToken>();
+  private pending = new Map<string, Promise<string>>();
+
+  constructor(config: ClientCredentialsConfig) {
+    this.config = {
+      tokenEndpointAuthMethod: 'client_secret_basic',
+      cacheBuffer: DEFAULT_TOKEN_CACHE_BUFFER,
+      fetch: (input, init) => fetch(input, init),
+      ...config,
+    };
+  }
+
+  /**
+   * Get an access token, reusing a cached one until it is about to expire
+   */
+  async getAccessToken(options: ClientCredentialsTokenOptions = {}): Promise<string> {
+    // Scopes are space-separated, so a plain join would let two option sets collide
+    const key = JSON.stringify([options.scope ?? null, options.audience ?? null]);
+
+    const cached = this.cache.get(key);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.accessToken;
+    }
+
+    // Concurrent callers share one token request
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.fetchAccessToken(key, options).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  /**
+   * Exchange a token, e.g. to downscope a user's token for a downstream service
+   */
+  async exchangeToken(params: TokenExchangeParams): Promise<TokenExchangeResponse> {
+    return this.requestToken<TokenExchangeResponse>({
+      grant_type: GRANT_TYPE.TOKEN_EXCHANGE,
+      ...params,
+    });
+  }
+
+  /**
+   * Drop all cached tokens
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async fetchAccessToken(key: string, options: ClientCredentialsTokenOptions): Promise<string> {
+    const tokens = await this.requestToken<TokenResponse>({
+      grant_type: GRANT_TYPE.CLIENT_CREDENTIALS,
+      scope: options.scope,
+      audience: options.audience,
+    });
+
+    if (tokens.expires_in) {
+      this.cache.set(key, {
+        accessToken: tokens.access_token,
+        expiresAt: Date.now() + (tokens.expires_in - this.config.cacheBuffer) * 1000,
+      });
+    }
+
+    return tokens.access_token;
+  }
+
+  private async requestToken<T extends TokenResponse>(params: TokenRequestParams): Promise<T> {
+    const body = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined) {
+        body.set(name, value);
+      }
+    });
+
+    const headers = new Headers({
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    });
+    await applyClientAuthentication(this.config, headers, body);
+
+    const response = await sendRequest(this.config.fetch, this.config.tokenEndpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+    });
+    return readJsonResponse<T>(response);
+  }
+}
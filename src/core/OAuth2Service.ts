@@ -4,372 +4,1667 @@
 
 import type { 
   OAuth2Config, 
+  OAuth2IssuerConfig,
+  AuthorizationServerMetadata,
+  IdTokenClaims,
+  IntrospectionResponse,
+  UserClaims,
   TokenResponse, 
   AuthState, 
+  AuthorizationRequest,
+  CodeExchangeParams,
+  DeviceAuthorizationResponse,
+  DevicePollOptions,
+  PopupOptions,
+  PushedAuthorizationResponse,
+  TokenTypeHint,
   OAuth2Error,
+  Logger,
+  LogoutReason,
+  OAuth2Events,
+  LoginMethod,
   AuthorizationParams,
   TokenRequestParams 
 } from './types';
-import { DEFAULT_REFRESH_BUFFER, GRANT_TYPE, RESPONSE_TYPE } from './constants';
+import {
+  CLIENT_ERROR_CODES,
+  DEFAULT_CLOCK_SKEW,
+  DEFAULT_DEVICE_POLL_INTERVAL,
+  DEFAULT_INTROSPECTION_CACHE_TIME,
+  DEFAULT_POPUP_TIMEOUT,
+  DEFAULT_REFRESH_BUFFER,
+  DEFAULT_REFRESH_RETRY_ATTEMPTS,
+  DEFAULT_REFRESH_RETRY_DELAY,
+  DEFAULT_REVOCATION_TIMEOUT,
+  DEFAULT_SILENT_RENEW_TIMEOUT,
+  ERROR_CODES,
+  GRANT_TYPE,
+  RESPONSE_TYPE,
+  STORAGE_KEYS,
+} from './constants';
 import { generateRandomString, generatePKCEParams, validateState } from '../utils/crypto';
 import { TokenStorage } from '../utils/storage';
+import { IndexedDBTokenStore, isWebStorage, MemoryTokenStore } from '../utils/stores';
 import { buildUrl, parseQueryParams, isRedirectUri } from '../utils/url';
+import { decodeJwt } from '../utils/jwt';
+import { notifyOpener, openPopup, waitForPopupCallback } from '../utils/popup';
+import { loadInHiddenIframe, notifyParent } from '../utils/iframe';
+import { createAuthFetch, formatAuthScheme, AuthFetch } from './authFetch';
+import { SessionSync, SessionSyncMessage } from './SessionSync';
+import { discoverMetadata } from './discovery';
+import { validateIdToken, verifyNonce, verifyRefreshedIdToken } from './idToken';
+import { applyClientAuthentication } from './clientAuth';
+import { DPoPSigner } from './dpop';
+import { EventHandler, TypedEventEmitter } from './events';
+import { AuthStore, AuthStateListener } from './AuthStore';
+import { createRequestObject } from './requestObject';
+import {
+  OAuth2ClientError,
+  ProviderError,
+  StateMismatchError,
+  MissingVerifierError,
+  TimeoutError,
+  sendRequest,
+  readJsonResponse,
+  checkResponse,
+} from './errors';
+
+/** Options without a default */
+type OptionalConfigKeys = 'metadata' | 'clientSecret' | 'clientAssertionKey' | 'requestObjectKey';
+
+type ResolvedConfig = Required<Omit<OAuth2Config, OptionalConfigKeys>> & Pick<OAuth2Config, OptionalConfigKeys>;
+
+const consoleLogger: Logger = {
+  debug: (...args) => console.log('[OAuth2Service]', ...args),
+  error: (...args) => console.error('[OAuth2Service]', ...args),
+};
+
+const INTERACTION_REQUIRED_ERRORS: string[] = [
+  ERROR_CODES.LOGIN_REQUIRED,
+  ERROR_CODES.INTERACTION_REQUIRED,
+  ERROR_CODES.CONSENT_REQUIRED,
+];
+
+/**
+ * Check whether a token endpoint error rejected the grant itself
+ */
+function isInvalidGrant(error: unknown): error is ProviderError {
+  return error instanceof ProviderError && error.code === ERROR_CODES.INVALID_GRANT;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with a promise, or reject with the signal's reason once it aborts
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Check whether a silent authentication error means the user must sign in interactively
+ */
+function requiresInteraction(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && 'error' in error
+    && INTERACTION_REQUIRED_ERRORS.includes((error as OAuth2Error).error);
+}
 
 export class OAuth2Service {
-  private config: Required<OAuth2Config>;
+  private config: ResolvedConfig;
   private storage: TokenStorage;
-  private refreshTimer?: NodeJS.Timeout;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
   private refreshPromise?: Promise<void>;
+  /** Refresh grant requests sent by the refresh in flight */
+  private refreshAttempts = 0;
+  /** Aborted when the session ends, so a refresh waiting to retry stops */
+  private refreshController?: AbortController;
+  private authFetch?: AuthFetch;
+  private sync?: SessionSync;
+  private dpop?: DPoPSigner;
+  private introspectionCache = new Map<string, { result: IntrospectionResponse; expiresAt: number }>();
+  private visibilityListener?: () => void;
+  private events = new TypedEventEmitter<OAuth2Events>((error, event) => {
+    this.config.logger.error(`Error in ${String(event)} handler:`, error);
+  });
+  private store = new AuthStore({
+    isAuthenticated: false,
+    isInitializing: true,
+    isLoading: true,
+    accessToken: null,
+    refreshToken: null,
+    idToken: null,
+    expiresAt: null,
+    scope: null,
+    user: null,
+    error: null,
+  });
+  /** Operations in flight; the snapshot is loading while any are */
+  private pendingWork = 0;
+  /** True until ready settles */
+  private initializing = true;
+  private snapshotVersion = 0;
+
+  /** Resolves once the stored session has been checked and any callback handled */
+  public readonly ready: Promise<void>;
 
   constructor(config: OAuth2Config) {
     this.config = {
       scope: '',
-      autoRefresh: true,
+      // Servers handle many sessions per service, so refresh timers are opt-in there
+      autoRefresh: typeof window !== 'undefined',
       refreshBufferTime: DEFAULT_REFRESH_BUFFER,
       onTokenRefresh: () => {},
       onAuthStateChange: () => {},
+      onRefreshEvent: () => {},
+      refreshRetryAttempts: DEFAULT_REFRESH_RETRY_ATTEMPTS,
+      refreshRetryDelay: DEFAULT_REFRESH_RETRY_DELAY,
       storageKeyPrefix: 'oauth2_',
-      storage: typeof window !== 'undefined' ? localStorage : undefined!,
+      storage: typeof window !== 'undefined' ? localStorage : new MemoryTokenStore(),
+      encryptTokens: false,
+      dpop: false,
+      encryptionKeyStore: typeof indexedDB !== 'undefined' ? new IndexedDBTokenStore() : new MemoryTokenStore(),
       debug: false,
+      logger: consoleLogger,
       logoutEndpoint: '',
+      deviceAuthorizationEndpoint: '',
+      revocationEndpoint: '',
+      revokeTokensOnLogout: false,
+      revocationTimeout: DEFAULT_REVOCATION_TIMEOUT,
+      onRevocationError: () => {},
+      introspectionEndpoint: '',
+      introspectionCacheTime: DEFAULT_INTROSPECTION_CACHE_TIME,
+      introspectSession: false,
+      pushedAuthorizationRequestEndpoint: '',
+      usePar: false,
+      issuer: '',
+      jwksUri: '',
+      clockSkew: DEFAULT_CLOCK_SKEW,
+      useNonce: false,
+      userinfoEndpoint: '',
+      loadUserInfo: false,
+      silentRenew: false,
+      silentRenewTimeout: DEFAULT_SILENT_RENEW_TIMEOUT,
+      syncTabs: false,
+      tokenEndpointAuthMethod: 'none',
+      // Resolved per call, so a fetch replaced after construction is still used
+      fetch: (input, init) => fetch(input, init),
       ...config,
     };
 
-    this.storage = new TokenStorage(this.config.storage, this.config.storageKeyPrefix);
+    this.storage = new TokenStorage(this.config.storage, this.config.storageKeyPrefix, {
+      encryptionKeyStore: this.config.encryptTokens ? this.config.encryptionKeyStore : undefined,
+      onDecryptionError: error => {
+        this.handleError(error);
+        this.clearSession('session_invalid').catch(clearError => {
+          this.log('Failed to clear session:', clearError);
+        });
+      },
+    });
+
+    this.forwardRefreshEvents();
+
+    if (this.config.dpop) {
+      this.dpop = new DPoPSigner(this.config.encryptionKeyStore, `${this.config.storageKeyPrefix}dpop_key`);
+    }
+
+    if (this.config.syncTabs && typeof window !== 'undefined') {
+      // Async stores raise no storage events, so leases and the fallback use localStorage
+      this.sync = new SessionSync(
+        `${this.config.storageKeyPrefix}session`,
+        isWebStorage(this.config.storage) ? this.config.storage : localStorage,
+        `${this.config.storageKeyPrefix}${STORAGE_KEYS.ACCESS_TOKEN}`,
+        message => {
+          this.handleSyncMessage(message).catch(error => {
+            this.log('Failed to apply session change:', error);
+          });
+        }
+      );
+    }
+
+    if (this.config.introspectSession && typeof document !== 'undefined') {
+      // Catch tokens revoked elsewhere while the tab was in the background
+      this.visibilityListener = () => {
+        if (document.visibilityState === 'visible') {
+          this.ready.then(() => this.validateSession()).catch(error => {
+            this.log('Session validation failed:', error);
+          });
+        }
+      };
+      document.addEventListener('visibilitychange', this.visibilityListener);
+    }
+
+    this.beginWork();
+    this.ready = this.initialize().finally(() => {
+      this.initializing = false;
+      return this.endWork();
+    });
+  }
+
+  /**
+   * Check the stored session and handle a callback on the redirect URI
+   */
+  private async initialize(): Promise<void> {
+    const onRedirectUri = typeof window !== 'undefined' && isRedirectUri(this.config.redirectUri);
     
     // Check for existing session
-    if (this.isAuthenticated()) {
-      this.scheduleTokenRefresh();
+    if (this.config.silentRenew && typeof window !== 'undefined' && !onRedirectUri && !(await this.hasUnexpiredAccessToken())) {
+      // Renew a missing or expired session without user interaction
+      try {
+        await this.refreshAccessToken();
+      } catch (error) {
+        this.log('Startup renew failed:', error);
+      }
+    } else if (await this.hasUnexpiredAccessToken()) {
+      await this.scheduleTokenRefresh();
+
+      if (this.config.introspectSession) {
+        await this.validateSession();
+      }
+    } else if (
+      this.config.autoRefresh &&
+      !onRedirectUri &&
+      (await this.storage.getExpiresAt()) &&
+      (await this.storage.getRefreshToken())
+    ) {
+      // The access token expired while the app was closed; refresh it rather than look signed out
+      try {
+        await this.refreshAccessToken();
+      } catch (error) {
+        this.log('Startup refresh failed:', error);
+      }
     }
 
-    // Handle callback if we're on the redirect URI
-    if (typeof window !== 'undefined' && isRedirectUri(this.config.redirectUri)) {
-      this.handleCallback().catch(error => {
+    // Handle callback if we're on the redirect URI, unless a popup or silent renew frame takes it over
+    if (onRedirectUri && !notifyOpener(this.getPopupName()) && !notifyParent(this.getSilentFrameName())) {
+      try {
+        await this.handleCallback();
+      } catch (error) {
         this.log('Error handling callback:', error);
-      });
+      }
     }
   }
 
   /**
-   * Start the authorization flow
+   * Create a service from an issuer's discovery document
    */
-  public async authorize(additionalParams?: Record<string, string>): Promise<void> {
-    try {
-      // Generate PKCE parameters
-      const { codeVerifier, codeChallenge } = await generatePKCEParams();
-      const state = generateRandomString(32);
+  public static async fromIssuer(issuer: string, config: OAuth2IssuerConfig): Promise<OAuth2Service> {
+    const metadata = await discoverMetadata(issuer, config.fetch);
+
+    const discovered: Partial<OAuth2Config> = {
+      authorizationEndpoint: metadata.authorization_endpoint,
+      tokenEndpoint: metadata.token_endpoint,
+    };
 
-      // Store for later use
-      this.storage.setCodeVerifier(codeVerifier);
-      this.storage.setState(state);
+    if (metadata.end_session_endpoint) {
+      discovered.logoutEndpoint = metadata.end_session_endpoint;
+    }
 
-      // Build authorization URL
-      const params: AuthorizationParams = {
-        response_type: RESPONSE_TYPE.CODE,
-        client_id: this.config.clientId,
-        redirect_uri: this.config.redirectUri,
-        scope: this.config.scope,
-        state,
-        code_challenge: codeChallenge,
-        code_challenge_method: 'S256',
-        ...additionalParams,
-      };
+    if (metadata.jwks_uri) {
+      discovered.jwksUri = metadata.jwks_uri;
+    }
+
+    if (metadata.userinfo_endpoint) {
+      discovered.userinfoEndpoint = metadata.userinfo_endpoint;
+    }
+
+    if (metadata.revocation_endpoint) {
+      discovered.revocationEndpoint = metadata.revocation_endpoint;
+    }
+
+    if (metadata.introspection_endpoint) {
+      discovered.introspectionEndpoint = metadata.introspection_endpoint;
+    }
+
+    if (metadata.device_authorization_endpoint) {
+      discovered.deviceAuthorizationEndpoint = metadata.device_authorization_endpoint;
+    }
+
+    if (metadata.pushed_authorization_request_endpoint) {
+      discovered.pushedAuthorizationRequestEndpoint = metadata.pushed_authorization_request_endpoint;
+      discovered.usePar = metadata.require_pushed_authorization_requests === true;
+    }
 
-      const authUrl = buildUrl(this.config.authorizationEndpoint, params);
+    if (metadata.scopes_supported?.includes('openid')) {
+      discovered.scope = 'openid';
+    }
+
+    return new OAuth2Service({
+      ...discovered,
+      ...config,
+      issuer: metadata.issuer,
+      metadata,
+    } as OAuth2Config);
+  }
+
+  /**
+   * Start the authorization flow
+   */
+  public async authorize(additionalParams?: Record<string, string>): Promise<void> {
+    this.startLogin('redirect');
+    // Stays loading while the browser navigates away
+    this.beginWork();
+
+    try {
+      const authUrl = await this.prepareAuthorizationUrl(additionalParams);
       
       // Redirect to authorization server
       window.location.href = authUrl;
     } catch (error) {
-      this.handleError(error as Error);
+      this.handleError(error);
+      await this.endWork();
       throw error;
     }
   }
 
   /**
-   * Handle the OAuth2 callback
+   * Run the authorization flow in a popup window, keeping the current page intact
    */
-  public async handleCallback(url?: string): Promise<void> {
+  public async authorizeWithPopup(
+    additionalParams?: Record<string, string>,
+    options: PopupOptions = {}
+  ): Promise<TokenResponse> {
+    const { width = 500, height = 650, timeout = DEFAULT_POPUP_TIMEOUT } = options;
+
+    // Open synchronously, before any await, so the user gesture still counts
+    const popup = openPopup(this.getPopupName(), width, height);
+    this.startLogin('popup');
+    this.beginWork();
+
     try {
-      const params = parseQueryParams(url || window.location.href);
-      
-      // Check for errors
-      if (params.error) {
-        const error: OAuth2Error = {
-          error: params.error,
-          error_description: params.error_description,
-          error_uri: params.error_uri,
-        };
-        throw error;
+      if (!popup) {
+        throw new OAuth2ClientError(CLIENT_ERROR_CODES.POPUP_BLOCKED, 'The login popup was blocked by the browser');
       }
 
-      // Validate state
-      const storedState = this.storage.getState();
-      if (!storedState || !validateState(params.state, storedState)) {
-        throw new Error('Invalid state parameter');
-      }
+      const authUrl = await this.prepareAuthorizationUrl(additionalParams);
+      popup.location.href = authUrl;
 
-      // Exchange code for tokens
-      const codeVerifier = this.storage.getCodeVerifier();
-      if (!params.code || !codeVerifier) {
-        throw new Error('Missing authorization code or code verifier');
-      }
+      const callbackUrl = await waitForPopupCallback(
+        popup,
+        new URL(this.config.redirectUri).origin,
+        timeout * 1000
+      );
 
-      await this.exchangeCodeForToken(params.code, codeVerifier);
-      
-      // Clean up temporary storage
-      this.storage.clearTemporary();
-      
-      // Clean up URL
-      if (typeof window !== 'undefined') {
-        window.history.replaceState({}, document.title, window.location.pathname);
-      }
+      return await this.completeCallback(callbackUrl);
     } catch (error) {
-      this.handleError(error as Error);
+      if (popup && !popup.closed) {
+        popup.close();
+      }
+      await this.storage.clearTemporary();
+      // Closing the popup is the user's choice, not an error to display
+      if (error instanceof OAuth2ClientError && error.code === CLIENT_ERROR_CODES.POPUP_CLOSED) {
+        this.log('Popup closed before the login finished');
+      } else {
+        this.handleError(error);
+      }
       throw error;
+    } finally {
+      await this.endWork();
     }
   }
 
   /**
-   * Exchange authorization code for tokens
-   */
-  private async exchangeCodeForToken(code: string, codeVerifier: string): Promise<void> {
-    const params: TokenRequestParams = {
-      grant_type: GRANT_TYPE.AUTHORIZATION_CODE,
-      code,
-      client_id: this.config.clientId,
-      redirect_uri: this.config.redirectUri,
-      code_verifier: codeVerifier,
-    };
-
-    const tokens = await this.makeTokenRequest(params);
-    this.storeTokens(tokens);
-    this.scheduleTokenRefresh();
-    this.config.onAuthStateChange(true);
-  }
-
-  /**
-   * Refresh the access token
+   * Renew the session without user interaction: loads the authorization URL
+   * with prompt=none in a hidden iframe
    */
-  public async refreshAccessToken(): Promise<void> {
-    // Prevent concurrent refresh attempts
-    if (this.refreshPromise) {
-      return this.refreshPromise;
-    }
+  public async signinSilent(additionalParams?: Record<string, string>): Promise<TokenResponse> {
+    this.startLogin('silent');
+    this.beginWork();
 
-    this.refreshPromise = this.performRefresh();
-    
     try {
-      await this.refreshPromise;
-    } finally {
-      this.refreshPromise = undefined;
-    }
-  }
-
-  private async performRefresh(): Promise<void> {
-    const refreshToken = this.storage.getRefreshToken();
-    
-    if (!refreshToken) {
-      throw new Error('No refresh token available');
-    }
+      const authUrl = await this.prepareAuthorizationUrl({ ...additionalParams, prompt: 'none' });
 
-    try {
-      const params: TokenRequestParams = {
-        grant_type: GRANT_TYPE.REFRESH_TOKEN,
-        refresh_token: refreshToken,
-        client_id: this.config.clientId,
-      };
+      const callbackUrl = await loadInHiddenIframe(
+        authUrl,
+        this.getSilentFrameName(),
+        new URL(this.config.redirectUri).origin,
+        this.config.silentRenewTimeout * 1000
+      );
 
-      const tokens = await this.makeTokenRequest(params);
-      this.storeTokens(tokens);
-      this.scheduleTokenRefresh();
-      this.config.onTokenRefresh(tokens);
+      return await this.completeCallback(callbackUrl);
     } catch (error) {
-      // If refresh fails, clear session
-      this.logout();
+      await this.storage.clearTemporary();
+      this.log('Silent authentication failed:', error);
       throw error;
+    } finally {
+      await this.endWork();
     }
   }
 
   /**
-   * Make a token request to the token endpoint
+   * Window name used for login popups, so the redirect page can recognise one
    */
-  private async makeTokenRequest(params: TokenRequestParams): Promise<TokenResponse> {
-    const response = await fetch(this.config.tokenEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams(params as any).toString(),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw error;
-    }
+  private getPopupName(): string {
+    return `${this.config.storageKeyPrefix}popup`;
+  }
 
-    return response.json();
+  /**
+   * Frame name used for silent authentication iframes
+   */
+  private getSilentFrameName(): string {
+    return `${this.config.storageKeyPrefix}silent_renew`;
   }
 
   /**
-   * Store tokens in storage
+   * Generate and store PKCE, state and nonce values, returning the authorization URL
    */
-  private storeTokens(tokens: TokenResponse): void {
-    this.storage.setAccessToken(tokens.access_token);
-    
-    if (tokens.refresh_token) {
-      this.storage.setRefreshToken(tokens.refresh_token);
-    }
-    
-    if (tokens.id_token) {
-      this.storage.setIdToken(tokens.id_token);
-    }
-    
-    if (tokens.scope) {
-      this.storage.setScope(tokens.scope);
-    }
-    
-    if (tokens.expires_in) {
-      const expiresAt = Date.now() + tokens.expires_in * 1000;
-      this.storage.setExpiresAt(expiresAt);
+  private async prepareAuthorizationUrl(additionalParams?: Record<string, string>): Promise<string> {
+    const { url, state, codeVerifier, nonce } = await this.createAuthorizationUrl(additionalParams);
+
+    // Store for later use
+    await this.storage.setCodeVerifier(codeVerifier);
+    await this.storage.setState(state);
+
+    if (nonce) {
+      await this.storage.setNonce(nonce);
     }
+
+    return url;
   }
 
   /**
-   * Schedule automatic token refresh
+   * Build an authorization URL without storing anything or navigating; the
+   * caller keeps state, codeVerifier and nonce for exchangeCode()
    */
-  private scheduleTokenRefresh(): void {
-    if (!this.config.autoRefresh) {
-      return;
-    }
+  public async createAuthorizationUrl(additionalParams?: Record<string, string>): Promise<AuthorizationRequest> {
+    // Generate PKCE parameters
+    const { codeVerifier, codeChallenge } = await generatePKCEParams();
+    const state = generateRandomString(32);
+    const nonce = this.config.useNonce ? generateRandomString(32) : undefined;
 
-    // Clear existing timer
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer);
-    }
+    // Build authorization URL
+    const params: AuthorizationParams = {
+      response_type: RESPONSE_TYPE.CODE,
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scope,
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...additionalParams,
+    };
 
-    const expiresAt = this.storage.getExpiresAt();
-    if (!expiresAt) {
-      return;
+    // With JAR the parameters travel inside the signed request object
+    const requestParams: Record<string, string | undefined> = this.config.requestObjectKey
+      ? { client_id: this.config.clientId, request: await this.signRequestObject(params) }
+      : params;
+
+    if (!this.config.usePar) {
+      return {
+        url: buildUrl(this.config.authorizationEndpoint, requestParams),
+        state,
+        codeVerifier,
+        nonce,
+      };
     }
 
-    const now = Date.now();
-    const refreshAt = expiresAt - (this.config.refreshBufferTime * 1000);
-    const delay = Math.max(0, refreshAt - now);
+    const { request_uri, expires_in } = await this.pushAuthorizationRequest(requestParams);
 
-    this.refreshTimer = setTimeout(() => {
-      this.refreshAccessToken().catch(error => {
-        this.log('Auto-refresh failed:', error);
-      });
-    }, delay);
+    return {
+      url: buildUrl(this.config.authorizationEndpoint, { client_id: this.config.clientId, request_uri }),
+      state,
+      codeVerifier,
+      nonce,
+      expiresAt: Date.now() + expires_in * 1000,
+    };
   }
 
   /**
-   * Get the current access token
+   * Sign authorization parameters as a request object (RFC 9101)
    */
-  public getAccessToken(): string | null {
-    const token = this.storage.getAccessToken();
-    const expiresAt = this.storage.getExpiresAt();
-    
-    // Check if token is expired
-    if (token && expiresAt && Date.now() >= expiresAt) {
-      this.logout();
-      return null;
+  private async signRequestObject(params: AuthorizationParams): Promise<string> {
+    if (!this.config.issuer) {
+      throw new OAuth2ClientError(CLIENT_ERROR_CODES.CONFIGURATION_ERROR, 'Request objects require the issuer option');
     }
-    
-    return token;
+
+    return createRequestObject(params, {
+      clientId: this.config.clientId,
+      audience: this.config.issuer,
+      signingKey: this.config.requestObjectKey!,
+    });
   }
 
   /**
-   * Get the current refresh token
+   * Push authorization parameters to the server (RFC 9126), which returns a
+   * request_uri to use in their place
    */
-  public getRefreshToken(): string | null {
-    return this.storage.getRefreshToken();
+  private async pushAuthorizationRequest(
+    params: Record<string, string | undefined>
+  ): Promise<PushedAuthorizationResponse> {
+    if (!this.config.pushedAuthorizationRequestEndpoint) {
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.PUSHED_AUTHORIZATION_FAILED,
+        'No pushed authorization request endpoint configured'
+      );
+    }
+
+    const response = await this.postForm(this.config.pushedAuthorizationRequestEndpoint, params);
+    return readJsonResponse<PushedAuthorizationResponse>(response);
   }
 
   /**
-   * Get the ID token (if available)
+   * Handle the OAuth2 callback
    */
-  public getIdToken(): string | null {
-    return this.storage.getIdToken();
+  public async handleCallback(url?: string): Promise<void> {
+    this.beginWork();
+
+    try {
+      if (!url && typeof window === 'undefined') {
+        throw new OAuth2ClientError(CLIENT_ERROR_CODES.CONFIGURATION_ERROR, 'A callback URL is required outside the browser');
+      }
+
+      await this.completeCallback(url || window.location.href);
+      
+      // Clean up URL
+      if (typeof window !== 'undefined') {
+        window.history.replaceState({}, document.title, window.location.pathname);
+      }
+    } catch (error) {
+      this.handleError(error);
+      throw error;
+    } finally {
+      await this.endWork();
+    }
   }
 
   /**
-   * Get token expiry time
+   * Validate a callback URL against the stored request and exchange its code for tokens
    */
-  public getTokenExpiry(): number | null {
-    return this.storage.getExpiresAt();
+  private async completeCallback(url: string): Promise<TokenResponse> {
+    const tokens = await this.exchangeCode({
+      callbackUrl: url,
+      state: (await this.storage.getState()) || '',
+      codeVerifier: (await this.storage.getCodeVerifier()) || '',
+      nonce: await this.storage.getNonce(),
+    });
+    
+    // Clean up temporary storage
+    await this.storage.clearTemporary();
+
+    return tokens;
   }
 
   /**
-   * Check if user is authenticated
+   * Validate a callback URL against a request from createAuthorizationUrl()
+   * and exchange its code for tokens
    */
-  public isAuthenticated(): boolean {
-    const token = this.getAccessToken();
-    return !!token;
+  public async exchangeCode({ callbackUrl, state, codeVerifier, nonce, redirectUri }: CodeExchangeParams): Promise<TokenResponse> {
+    const params = parseQueryParams(callbackUrl);
+    
+    // Check for errors
+    if (params.error) {
+      throw new ProviderError({
+        error: params.error,
+        error_description: params.error_description,
+        error_uri: params.error_uri,
+      });
+    }
+
+    // Validate state
+    if (!validateState(params.state, state)) {
+      throw new StateMismatchError();
+    }
+
+    // Exchange code for tokens
+    if (!params.code || !codeVerifier) {
+      throw new MissingVerifierError();
+    }
+
+    const tokens = await this.exchangeCodeForToken(params.code, codeVerifier, nonce ?? null, redirectUri);
+    this.events.emit('callbackHandled', { tokens });
+
+    return tokens;
   }
 
   /**
-   * Get the current authentication state
+   * Exchange authorization code for tokens
    */
-  public getAuthState(): AuthState {
-    return {
-      isAuthenticated: this.isAuthenticated(),
-      isLoading: false,
-      accessToken: this.getAccessToken(),
-      refreshToken: this.getRefreshToken(),
-      idToken: this.getIdToken(),
-      expiresAt: this.getTokenExpiry(),
-      scope: this.storage.getScope(),
-      error: null,
+  private async exchangeCodeForToken(
+    code: string,
+    codeVerifier: string,
+    nonce: string | null,
+    redirectUri: string = this.config.redirectUri
+  ): Promise<TokenResponse> {
+    const params: TokenRequestParams = {
+      grant_type: GRANT_TYPE.AUTHORIZATION_CODE,
+      code,
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
     };
+
+    const tokens = await this.makeTokenRequest(params);
+    await this.acceptTokens(tokens, nonce);
+
+    return tokens;
   }
 
   /**
-   * Logout the user
+   * Start the device flow (RFC 8628). Show the returned user_code and
+   * verification_uri (or verification_uri_complete) to the user, then pass
+   * the response to pollDeviceToken().
    */
-  public logout(redirectTo?: string): void {
-    // Clear refresh timer
-    if (this.refreshTimer) {
-      clearTimeout(this.refreshTimer);
+  public async requestDeviceAuthorization(additionalParams?: Record<string, string>): Promise<DeviceAuthorizationResponse> {
+    if (!this.config.deviceAuthorizationEndpoint) {
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.DEVICE_AUTHORIZATION_FAILED,
+        'No device authorization endpoint configured'
+      );
     }
+    this.startLogin('device');
 
-    // Clear storage
-    this.storage.clear();
-    
-    // Notify state change
-    this.config.onAuthStateChange(false);
-
-    // Handle logout redirect
-    if (this.config.logoutEndpoint) {
-      const params = {
-        client_id: this.config.clientId,
-        post_logout_redirect_uri: redirectTo || window.location.origin,
-      };
-      window.location.href = buildUrl(this.config.logoutEndpoint, params);
-    } else if (redirectTo) {
-      window.location.href = redirectTo;
-    }
+    const response = await this.postForm(this.config.deviceAuthorizationEndpoint, {
+      client_id: this.config.clientId,
+      scope: this.config.scope || undefined,
+      ...additionalParams,
+    });
+    return readJsonResponse<DeviceAuthorizationResponse>(response);
   }
 
   /**
-   * Handle errors
+   * Poll the token endpoint until the user approves or denies the device
+   * authorization, then store the tokens like any other login
    */
-  private handleError(error: Error | OAuth2Error): void {
-    this.log('OAuth2 Error:', error);
-    
-    if ('error' in error) {
-      console.error(`OAuth2 Error: ${error.error}`, error.error_description);
-    } else {
-      console.error('OAuth2 Error:', error.message);
+  public async pollDeviceToken(
+    authorization: DeviceAuthorizationResponse,
+    options: DevicePollOptions = {}
+  ): Promise<TokenResponse> {
+    const params: TokenRequestParams = {
+      grant_type: GRANT_TYPE.DEVICE_CODE,
+      device_code: authorization.device_code,
+      client_id: this.config.clientId,
+    };
+    const expiresAt = Date.now() + authorization.expires_in * 1000;
+    let interval = (authorization.interval ?? DEFAULT_DEVICE_POLL_INTERVAL) * 1000;
+
+    for (;;) {
+      await sleep(interval, options.signal);
+
+      try {
+        const tokens = await this.makeTokenRequest(params);
+        await this.acceptTokens(tokens);
+        return tokens;
+      } catch (error) {
+        const code = (error as OAuth2Error).error;
+
+        // slow_down asks for 5 more seconds between polls (RFC 8628, section 3.5)
+        if (code === ERROR_CODES.SLOW_DOWN) {
+          interval += 5000;
+        } else if (code !== ERROR_CODES.AUTHORIZATION_PENDING) {
+          // access_denied, expired_token and anything unexpected end the flow
+          throw error;
+        }
+      }
+
+      if (Date.now() >= expiresAt) {
+        throw new TimeoutError(ERROR_CODES.EXPIRED_TOKEN, 'The device code expired before the user approved it');
+      }
+    }
+  }
+
+  /**
+   * Validate and store the tokens of a completed login, then start the session
+   */
+  private async acceptTokens(tokens: TokenResponse, nonce?: string | null): Promise<void> {
+    await this.validateTokenResponse(tokens, nonce);
+    // UserInfo belongs to the previous login, which may have been another user
+    await this.storage.removeUserInfo();
+    await this.storeTokens(tokens);
+    await this.scheduleTokenRefresh();
+    await this.refreshUserInfo();
+    this.sync?.broadcast({ type: 'logged_in' });
+    this.store.update({ error: null });
+    await this.updateSnapshot();
+    this.config.onAuthStateChange(true);
+  }
+
+  /**
+   * Refresh the access token
+   */
+  public async refreshAccessToken(): Promise<void> {
+    // Prevent concurrent refresh attempts
+    if (this.refreshPromise) {
+      return this.refreshPromise;
+    }
+
+    this.refreshAttempts = 0;
+    const controller = new AbortController();
+    this.refreshController = controller;
+    this.refreshPromise = this.sync
+      ? this.performSynchronizedRefresh(controller.signal)
+      : this.performRefresh(controller.signal);
+    this.beginWork();
+    
+    try {
+      await this.refreshPromise;
+    } catch (error) {
+      this.events.emit('refreshFailed', {
+        error: OAuth2ClientError.from(error, CLIENT_ERROR_CODES.REFRESH_FAILED),
+        attempts: this.refreshAttempts,
+      });
+      throw error;
+    } finally {
+      this.refreshPromise = undefined;
+      if (this.refreshController === controller) {
+        this.refreshController = undefined;
+      }
+      await this.endWork();
+    }
+  }
+
+  /**
+   * Refresh while holding the cross-tab lock. Tabs that waited for the lock
+   * pick up the tokens the leader stored instead of spending the refresh token again.
+   */
+  private async performSynchronizedRefresh(signal: AbortSignal): Promise<void> {
+    const accessToken = await this.storage.getAccessToken();
+
+    await this.sync!.runExclusive(async () => {
+      const current = await this.storage.getAccessToken();
+      if (current && current !== accessToken) {
+        this.log('Tokens were refreshed by another tab');
+        await this.scheduleTokenRefresh();
+        return;
+      }
+
+      await this.performRefresh(signal);
+    });
+  }
+
+  private async performRefresh(signal: AbortSignal): Promise<void> {
+    const refreshToken = await this.storage.getRefreshToken();
+    
+    if (!refreshToken) {
+      if (this.config.silentRenew) {
+        return this.performSilentRenew();
+      }
+      throw new OAuth2ClientError(CLIENT_ERROR_CODES.MISSING_REFRESH_TOKEN, 'No refresh token available');
+    }
+
+    const tokens = await this.requestRefresh(refreshToken, signal);
+    // Drop the response if the user logged out or signed in again meanwhile
+    await this.assertRefreshTokenUnchanged(refreshToken);
+
+    try {
+      await this.validateTokenResponse(tokens, null, await this.storage.getIdToken());
+      await this.storeTokens(tokens);
+    } catch (error) {
+      // The old refresh token may already be spent, so the session cannot continue
+      await this.endSession('refresh_failed');
+      throw error;
+    }
+
+    await this.scheduleTokenRefresh();
+    await this.refreshUserInfo();
+    this.sync?.broadcast({ type: 'tokens_updated' });
+    await this.updateSnapshot();
+    const rotated = !!tokens.refresh_token && tokens.refresh_token !== refreshToken;
+    this.events.emit('refreshSucceeded', { tokens, rotated });
+    this.config.onTokenRefresh(tokens);
+  }
+
+  /**
+   * Send the refresh grant, retrying failures other than invalid_grant with
+   * exponential backoff
+   */
+  private async requestRefresh(refreshToken: string, signal: AbortSignal): Promise<TokenResponse> {
+    const params: TokenRequestParams = {
+      grant_type: GRANT_TYPE.REFRESH_TOKEN,
+      refresh_token: refreshToken,
+      client_id: this.config.clientId,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      this.refreshAttempts = attempt;
+
+      try {
+        return await this.makeTokenRequest(params);
+      } catch (error) {
+        // invalid_grant is how providers report reuse of a rotated refresh token
+        if (isInvalidGrant(error)) {
+          this.events.emit('refreshTokenRejected', { error });
+          await this.endSession('refresh_failed');
+          throw error;
+        }
+
+        if (attempt > this.config.refreshRetryAttempts) {
+          throw error;
+        }
+
+        const delay = this.config.refreshRetryDelay * 1000 * 2 ** (attempt - 1);
+        this.log(`Refresh attempt ${attempt} failed, retrying in ${delay}ms:`, error);
+        this.events.emit('refreshRetrying', {
+          attempt,
+          delay,
+          error: OAuth2ClientError.from(error, CLIENT_ERROR_CODES.REFRESH_FAILED),
+        });
+        await sleep(delay, signal);
+        await this.assertRefreshTokenUnchanged(refreshToken);
+      }
+    }
+  }
+
+  /**
+   * Fail the refresh if the stored refresh token is no longer the one being spent
+   */
+  private async assertRefreshTokenUnchanged(refreshToken: string): Promise<void> {
+    if ((await this.storage.getRefreshToken()) !== refreshToken) {
+      throw new OAuth2ClientError(CLIENT_ERROR_CODES.REFRESH_FAILED, 'The session changed during the refresh');
+    }
+  }
+
+  /**
+   * Stop a refresh that is waiting to retry
+   */
+  private abortRefresh(): void {
+    this.refreshController?.abort(
+      new OAuth2ClientError(CLIENT_ERROR_CODES.REFRESH_FAILED, 'The session ended during the refresh')
+    );
+  }
+
+  /**
+   * Renew tokens through silent authentication when no refresh token is available
+   */
+  private async performSilentRenew(): Promise<void> {
+    try {
+      const tokens = await this.signinSilent();
+      this.events.emit('refreshSucceeded', { tokens, rotated: false });
+      this.config.onTokenRefresh(tokens);
+    } catch (error) {
+      // The provider session is gone, so the user has to sign in interactively
+      if (requiresInteraction(error)) {
+        await this.clearSession('refresh_failed');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make a token request to the token endpoint
+   */
+  private async makeTokenRequest(params: TokenRequestParams): Promise<TokenResponse> {
+    const url = this.config.tokenEndpoint;
+    const response = this.dpop
+      ? await this.dpop.fetchWithProof('POST', url, null, proof => this.postForm(url, params, { headers: { DPoP: proof } }))
+      : await this.postForm(url, params);
+    return readJsonResponse<TokenResponse>(response);
+  }
+
+  /**
+   * POST a form to an authorization server endpoint with client authentication
+   */
+  private async postForm(
+    url: string,
+    params: object,
+    init: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const body = new URLSearchParams();
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined) {
+        body.set(name, value);
+      }
+    });
+
+    const headers = new Headers({
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...init.headers,
+    });
+    await applyClientAuthentication(this.config, headers, body);
+
+    return sendRequest(this.config.fetch, url, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+      signal: init.signal,
+    });
+  }
+
+  /**
+   * Verify the ID token in a token response before it is accepted
+   */
+  private async validateTokenResponse(
+    tokens: TokenResponse,
+    nonce?: string | null,
+    previousIdToken?: string | null
+  ): Promise<void> {
+    if (!tokens.id_token) {
+      if (nonce) {
+        throw new OAuth2ClientError(
+          CLIENT_ERROR_CODES.INVALID_ID_TOKEN,
+          'Token response is missing the ID token for the nonce'
+        );
+      }
+      return;
+    }
+
+    if (this.config.jwksUri) {
+      await validateIdToken(tokens.id_token, {
+        issuer: this.config.issuer,
+        clientId: this.config.clientId,
+        jwksUri: this.config.jwksUri,
+        clockSkew: this.config.clockSkew,
+        fetch: this.config.fetch,
+      });
+    } else {
+      // Not a debug message: nothing vouches for the claims, including the nonce checked below
+      this.config.logger.error('Accepting an ID token without signature verification; configure jwksUri to verify it');
+    }
+
+    if (nonce) {
+      verifyNonce(tokens.id_token, nonce);
+    }
+    if (previousIdToken) {
+      verifyRefreshedIdToken(tokens.id_token, previousIdToken);
+    }
+  }
+
+  /**
+   * Store tokens in storage
+   */
+  private async storeTokens(tokens: TokenResponse): Promise<void> {
+    // Replace a rotated refresh token first, so the spent one is never left as
+    // the only copy; providers that do not rotate omit it and the old one stays
+    if (tokens.refresh_token) {
+      await this.storage.setRefreshToken(tokens.refresh_token);
+    }
+
+    await this.storage.setAccessToken(tokens.access_token);
+    await this.storage.setTokenType(tokens.token_type || 'Bearer');
+    
+    if (tokens.id_token) {
+      await this.storage.setIdToken(tokens.id_token);
+    }
+    
+    if (tokens.scope) {
+      await this.storage.setScope(tokens.scope);
+    }
+    
+    const expiresAt = tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : null;
+    if (expiresAt) {
+      await this.storage.setExpiresAt(expiresAt);
+    }
+
+    this.events.emit('tokensStored', { tokens, expiresAt });
+  }
+
+  /**
+   * Schedule automatic token refresh
+   */
+  private async scheduleTokenRefresh(): Promise<void> {
+    if (!this.config.autoRefresh) {
+      return;
+    }
+
+    const expiresAt = await this.storage.getExpiresAt();
+
+    // Clear existing timer
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+
+    if (!expiresAt) {
+      return;
+    }
+
+    const now = Date.now();
+    const refreshAt = expiresAt - (this.config.refreshBufferTime * 1000);
+    const delay = Math.max(0, refreshAt - now);
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshAccessToken().catch(error => {
+        this.log('Auto-refresh failed:', error);
+      });
+    }, delay);
+    this.events.emit('refreshScheduled', { refreshAt: now + delay, expiresAt });
+  }
+
+  /**
+   * Get the current access token; null once it has expired, which ends the
+   * session unless a refresh token is still held
+   */
+  public async getAccessToken(): Promise<string | null> {
+    const token = await this.storage.getAccessToken();
+    const expiresAt = await this.storage.getExpiresAt();
+    
+    // Check if token is expired
+    if (token && expiresAt && Date.now() >= expiresAt) {
+      this.events.emit('tokenExpired', { expiresAt });
+
+      // A refresh may have failed for a transient reason; only invalid_grant ends a session that can still refresh
+      if (await this.storage.getRefreshToken()) {
+        await this.updateSnapshot();
+      } else {
+        await this.endSession('expired');
+      }
+      return null;
+    }
+    
+    return token;
+  }
+
+  /**
+   * Get an access token, refreshing it first if it expires within refreshBufferTime
+   */
+  public async getValidAccessToken(): Promise<string | null> {
+    const expiresAt = await this.storage.getExpiresAt();
+    const canRefresh = !!(await this.storage.getRefreshToken()) || this.config.silentRenew;
+    const refreshAt = expiresAt ? expiresAt - this.config.refreshBufferTime * 1000 : null;
+
+    if (canRefresh && refreshAt !== null && Date.now() >= refreshAt) {
+      try {
+        await this.refreshAccessToken();
+      } catch (error) {
+        this.log('Refresh before request failed:', error);
+      }
+    }
+
+    return this.getAccessToken();
+  }
+
+  /**
+   * Get the token type of the current access token
+   */
+  public getTokenType(): Promise<string | null> {
+    return this.storage.getTokenType();
+  }
+
+  /**
+   * Fetch a resource with the access token attached, refreshing and
+   * replaying once if the token is rejected
+   */
+  public fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    if (!this.authFetch) {
+      this.authFetch = createAuthFetch(this, this.config.fetch);
+    }
+    return this.authFetch(input, init);
+  }
+
+  /**
+   * Get the DPoP signer when DPoP is enabled, e.g. to send proofs with other clients
+   */
+  public getDPoPSigner(): DPoPSigner | null {
+    return this.dpop ?? null;
+  }
+
+  /**
+   * Get the current refresh token
+   */
+  public getRefreshToken(): Promise<string | null> {
+    return this.storage.getRefreshToken();
+  }
+
+  /**
+   * Get the ID token (if available)
+   */
+  public getIdToken(): Promise<string | null> {
+    return this.storage.getIdToken();
+  }
+
+  /**
+   * Get the authorization server metadata (if discovered)
+   */
+  public getMetadata(): AuthorizationServerMetadata | null {
+    return this.config.metadata ?? null;
+  }
+
+  /**
+   * Get the decoded ID token claims merged with any fetched UserInfo claims
+   */
+  public async getUser(): Promise<UserClaims | null> {
+    const idToken = await this.getIdToken();
+    let claims: IdTokenClaims | null = null;
+
+    if (idToken) {
+      try {
+        claims = decodeJwt<IdTokenClaims>(idToken).payload;
+      } catch (error) {
+        this.log('Unable to decode ID token:', error);
+      }
+    }
+
+    const userInfo = await this.storage.getUserInfo();
+    if (!claims && !userInfo) {
+      return null;
+    }
+
+    // The ID token decides who the user is; UserInfo only adds claims
+    return { ...claims, ...userInfo, ...(claims?.sub ? { sub: claims.sub } : {}) } as UserClaims;
+  }
+
+  /**
+   * Fetch claims from the UserInfo endpoint and merge them into the user
+   */
+  public async fetchUserInfo(): Promise<UserClaims> {
+    const accessToken = await this.getAccessToken();
+    if (!this.config.userinfoEndpoint || !accessToken) {
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.USERINFO_FAILED,
+        this.config.userinfoEndpoint ? 'No access token available' : 'No userinfo endpoint configured'
+      );
+    }
+
+    const url = this.config.userinfoEndpoint;
+    const scheme = formatAuthScheme(await this.getTokenType());
+    const send = (proof?: string) => sendRequest(this.config.fetch, url, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `${scheme} ${accessToken}`,
+        ...(proof ? { DPoP: proof } : {}),
+      },
+    });
+    const response = scheme === 'DPoP' && this.dpop
+      ? await this.dpop.fetchWithProof('GET', url, accessToken, send)
+      : await send();
+
+    if (!response.ok) {
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.USERINFO_FAILED,
+        `UserInfo request failed with status ${response.status}`,
+        { status: response.status }
+      );
+    }
+
+    const userInfo = await readJsonResponse<UserClaims>(response);
+
+    // The UserInfo subject must be the ID token subject (OIDC Core 5.3.2)
+    const current = await this.getUser();
+    if (current?.sub && userInfo.sub !== current.sub) {
+      throw new OAuth2ClientError(CLIENT_ERROR_CODES.USERINFO_FAILED, 'UserInfo subject does not match the ID token');
+    }
+
+    await this.storage.setUserInfo(userInfo);
+    await this.updateSnapshot();
+    return (await this.getUser())!;
+  }
+
+  /**
+   * Refresh UserInfo claims if configured; failures leave the session intact
+   */
+  private async refreshUserInfo(): Promise<void> {
+    if (!this.config.loadUserInfo) {
+      return;
+    }
+
+    try {
+      await this.fetchUserInfo();
+    } catch (error) {
+      this.log('Failed to load UserInfo:', error);
+    }
+  }
+
+  /**
+   * Get token expiry time
+   */
+  public getTokenExpiry(): Promise<number | null> {
+    return this.storage.getExpiresAt();
+  }
+
+  /**
+   * Ask the introspection endpoint whether a token (default: the access token)
+   * is active. Results are reused for introspectionCacheTime seconds.
+   */
+  public async introspect(token?: string, tokenTypeHint?: TokenTypeHint): Promise<IntrospectionResponse> {
+    const subject = token ?? await this.storage.getAccessToken();
+    if (!this.config.introspectionEndpoint || !subject) {
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.INTROSPECTION_FAILED,
+        this.config.introspectionEndpoint ? 'No access token available' : 'No introspection endpoint configured'
+      );
+    }
+
+    const now = Date.now();
+    this.introspectionCache.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.introspectionCache.delete(key);
+      }
+    });
+
+    const cached = this.introspectionCache.get(subject);
+    if (cached) {
+      return cached.result;
+    }
+
+    const response = await this.postForm(this.config.introspectionEndpoint, {
+      token: subject,
+      token_type_hint: tokenTypeHint ?? (token ? undefined : 'access_token'),
+      client_id: this.config.clientId,
+    });
+
+    const result = await readJsonResponse<IntrospectionResponse>(response);
+
+    // Never trust a cached active result past the token's own expiry
+    const cacheUntil = now + this.config.introspectionCacheTime * 1000;
+    this.introspectionCache.set(subject, {
+      result,
+      expiresAt: result.active && result.exp ? Math.min(cacheUntil, result.exp * 1000) : cacheUntil,
+    });
+
+    return result;
+  }
+
+  /**
+   * Check the access token by introspection, clearing the session when the
+   * server reports it inactive (e.g. revoked). Resolves with whether the
+   * session is still valid; introspection failures keep the session.
+   */
+  public async validateSession(): Promise<boolean> {
+    const accessToken = await this.storage.getAccessToken();
+    if (!accessToken) {
+      return false;
+    }
+
+    let result: IntrospectionResponse;
+    try {
+      result = await this.introspect(accessToken, 'access_token');
+    } catch (error) {
+      this.log('Session validation failed:', error);
+      return true;
+    }
+
+    // The token may have been replaced while the request was in flight
+    if (accessToken !== await this.storage.getAccessToken()) {
+      return true;
+    }
+
+    if (!result.active) {
+      this.log('Access token is no longer active');
+      await this.clearSession('session_invalid');
+      return false;
+    }
+
+    // Opaque tokens only have a guessed expiry; the server knows the real one
+    if (result.exp && result.exp * 1000 !== await this.storage.getExpiresAt()) {
+      await this.storage.setExpiresAt(result.exp * 1000);
+      await this.scheduleTokenRefresh();
+      await this.updateSnapshot();
+    }
+
+    return true;
+  }
+
+  /**
+   * Check for a stored access token that has not expired, without side effects
+   */
+  private async hasUnexpiredAccessToken(): Promise<boolean> {
+    const expiresAt = await this.storage.getExpiresAt();
+    return !!(await this.storage.getAccessToken()) && (!expiresAt || Date.now() < expiresAt);
+  }
+
+  /**
+   * Check if user is authenticated
+   */
+  public async isAuthenticated(): Promise<boolean> {
+    const token = await this.getAccessToken();
+    return !!token;
+  }
+
+  /**
+   * Get the current authentication state
+   */
+  public async getAuthState(): Promise<AuthState> {
+    // Ends an expired session first
+    await this.getAccessToken();
+
+    return { ...(await this.readAuthState()), isInitializing: false, isLoading: false, error: null };
+  }
+
+  /**
+   * Get the current state snapshot without waiting for storage; the same
+   * object until the state changes
+   */
+  public getSnapshot(): Readonly<AuthState> {
+    return this.store.getSnapshot();
+  }
+
+  /**
+   * Call listener with every new state snapshot; returns a function that unsubscribes
+   */
+  public subscribe(listener: AuthStateListener): () => void {
+    return this.store.subscribe(listener);
+  }
+
+  /**
+   * Read the session from storage without side effects; an expired access token counts as signed out
+   */
+  private async readAuthState(): Promise<Omit<AuthState, 'isInitializing' | 'isLoading' | 'error'>> {
+    const accessToken = (await this.hasUnexpiredAccessToken()) ? await this.storage.getAccessToken() : null;
+
+    return {
+      isAuthenticated: !!accessToken,
+      accessToken,
+      refreshToken: await this.storage.getRefreshToken(),
+      idToken: await this.storage.getIdToken(),
+      expiresAt: await this.storage.getExpiresAt(),
+      scope: await this.storage.getScope(),
+      user: await this.getUser(),
+    };
+  }
+
+  /**
+   * Logout the user
+   */
+  public async logout(redirectTo?: string): Promise<void> {
+    this.beginWork();
+
+    try {
+      await this.endSession('user', redirectTo);
+    } finally {
+      await this.endWork();
+    }
+  }
+
+  /**
+   * Revoke tokens if configured, clear the session and follow the logout redirect
+   */
+  private async endSession(reason: LogoutReason, redirectTo?: string): Promise<void> {
+    if (this.config.revokeTokensOnLogout) {
+      await this.revokeStoredTokens();
+    }
+
+    await this.clearSession(reason);
+
+    // Handle logout redirect
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const logoutUrl = this.createLogoutUrl(redirectTo);
+    if (logoutUrl) {
+      window.location.href = logoutUrl;
+    } else if (redirectTo) {
+      window.location.href = redirectTo;
+    }
+  }
+
+  /**
+   * Revoke a token at the revocation endpoint (RFC 7009). Rejects on failure
+   * or after revocationTimeout seconds.
+   */
+  public async revokeToken(token: string, tokenTypeHint?: TokenTypeHint): Promise<void> {
+    const controller = this.createRevocationTimeout();
+
+    try {
+      await this.requestRevocation(token, tokenTypeHint, controller.signal);
+    } finally {
+      controller.abort();
+    }
+  }
+
+  /**
+   * Best-effort revocation of the refresh token, then the access token, within
+   * a single timeout; failures go to onRevocationError
+   */
+  private async revokeStoredTokens(): Promise<void> {
+    const tokens: [string | null, TokenTypeHint][] = [
+      [await this.storage.getRefreshToken(), 'refresh_token'],
+      [await this.storage.getAccessToken(), 'access_token'],
+    ];
+    const controller = this.createRevocationTimeout();
+
+    try {
+      for (const [token, tokenTypeHint] of tokens) {
+        if (!token) {
+          continue;
+        }
+
+        try {
+          await this.requestRevocation(token, tokenTypeHint, controller.signal);
+        } catch (error) {
+          this.log(`Failed to revoke ${tokenTypeHint}:`, error);
+          const revocationError = OAuth2ClientError.from(error, CLIENT_ERROR_CODES.REVOCATION_FAILED);
+          this.config.onRevocationError(revocationError, tokenTypeHint);
+        }
+      }
+    } finally {
+      controller.abort();
+    }
+  }
+
+  /**
+   * Abort controller that fires with a revocation_timeout error
+   */
+  private createRevocationTimeout(): AbortController {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(new TimeoutError(CLIENT_ERROR_CODES.REVOCATION_TIMEOUT, 'Token revocation timed out'));
+    }, this.config.revocationTimeout * 1000);
+
+    controller.signal.addEventListener('abort', () => clearTimeout(timer), { once: true });
+    return controller;
+  }
+
+  private async requestRevocation(token: string, tokenTypeHint: TokenTypeHint | undefined, signal: AbortSignal): Promise<void> {
+    if (!this.config.revocationEndpoint) {
+      throw new OAuth2ClientError(CLIENT_ERROR_CODES.REVOCATION_FAILED, 'No revocation endpoint configured');
+    }
+
+    // Raced against the signal too, so a fetch that ignores it cannot hold up logout
+    const response = await abortable(
+      this.postForm(this.config.revocationEndpoint, {
+        token,
+        token_type_hint: tokenTypeHint,
+        client_id: this.config.clientId,
+      }, { signal }),
+      signal
+    );
+    await checkResponse(response);
+  }
+
+  /**
+   * Build the logout endpoint URL (if configured), e.g. for a server to redirect to
+   */
+  public createLogoutUrl(redirectTo?: string): string | null {
+    if (!this.config.logoutEndpoint) {
+      return null;
+    }
+
+    return buildUrl(this.config.logoutEndpoint, {
+      client_id: this.config.clientId,
+      post_logout_redirect_uri: redirectTo || (typeof window !== 'undefined' ? window.location.origin : undefined),
+    });
+  }
+
+  /**
+   * Clear the local session without any redirect
+   */
+  private async clearSession(reason: LogoutReason, broadcast: boolean = true): Promise<void> {
+    // Clear refresh timer
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.abortRefresh();
+
+    // Clear storage
+    await this.storage.clear();
+
+    if (broadcast) {
+      this.sync?.broadcast({ type: 'logged_out', reason });
+    }
+    await this.updateSnapshot();
+    
+    // Notify state change
+    this.config.onAuthStateChange(false);
+    this.events.emit('loggedOut', { reason });
+  }
+
+  /**
+   * Apply a session change made in another tab
+   */
+  private async handleSyncMessage(message: SessionSyncMessage): Promise<void> {
+    this.log('Session change from another tab:', message.type);
+
+    switch (message.type) {
+      case 'logged_in':
+        await this.scheduleTokenRefresh();
+        await this.updateSnapshot();
+        this.config.onAuthStateChange(true);
+        break;
+      case 'tokens_updated': {
+        await this.scheduleTokenRefresh();
+        await this.updateSnapshot();
+        const tokens = await this.getStoredTokens();
+        if (tokens) {
+          this.config.onTokenRefresh(tokens);
+        }
+        break;
+      }
+      case 'logged_out':
+        // Storage events cannot carry the reason
+        await this.clearSession(message.reason ?? 'user', false);
+        break;
+    }
+  }
+
+  /**
+   * Rebuild a token response from storage
+   */
+  private async getStoredTokens(): Promise<TokenResponse | null> {
+    const accessToken = await this.storage.getAccessToken();
+    if (!accessToken) {
+      return null;
+    }
+
+    const expiresAt = await this.storage.getExpiresAt();
+    return {
+      access_token: accessToken,
+      token_type: (await this.storage.getTokenType()) || 'Bearer',
+      expires_in: expiresAt ? Math.max(0, Math.round((expiresAt - Date.now()) / 1000)) : undefined,
+      refresh_token: (await this.storage.getRefreshToken()) ?? undefined,
+      id_token: (await this.storage.getIdToken()) ?? undefined,
+      scope: (await this.storage.getScope()) ?? undefined,
+    };
+  }
+
+  /**
+   * Report the refresh events to onRefreshEvent, which predates on()
+   */
+  private forwardRefreshEvents(): void {
+    const { onRefreshEvent } = this.config;
+
+    this.events.on('refreshSucceeded', ({ rotated }) => onRefreshEvent({ type: 'refresh_succeeded', rotated }));
+    this.events.on('refreshRetrying', event => onRefreshEvent({ type: 'refresh_retrying', ...event }));
+    this.events.on('refreshTokenRejected', ({ error }) => onRefreshEvent({ type: 'refresh_token_rejected', error }));
+    this.events.on('refreshFailed', ({ error, attempts }) => {
+      // Already reported as refresh_token_rejected
+      if (!isInvalidGrant(error)) {
+        onRefreshEvent({ type: 'refresh_failed', attempts, error });
+      }
+    });
+  }
+
+  /**
+   * Subscribe to a lifecycle event; returns a function that unsubscribes
+   */
+  public on<K extends keyof OAuth2Events>(event: K, handler: EventHandler<OAuth2Events[K]>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler added with on()
+   */
+  public off<K extends keyof OAuth2Events>(event: K, handler: EventHandler<OAuth2Events[K]>): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Stop timers, refresh retries and cross-tab listeners and remove event handlers; call when discarding the service
+   */
+  public destroy(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.abortRefresh();
+    if (this.visibilityListener) {
+      document.removeEventListener('visibilitychange', this.visibilityListener);
+    }
+    this.sync?.close();
+    this.events.clear();
+  }
+
+  /**
+   * Handle errors
+   */
+  private handleError(error: unknown): void {
+    this.config.logger.error('OAuth2 Error:', error);
+
+    const clientError = OAuth2ClientError.from(error, CLIENT_ERROR_CODES.LOGIN_FAILED);
+    this.store.update({ error: clientError });
+    this.events.emit('error', { error: clientError });
+  }
+
+  /**
+   * Clear the last error and announce a login
+   */
+  private startLogin(method: LoginMethod): void {
+    this.store.update({ error: null });
+    this.events.emit('loginStarted', { method });
+  }
+
+  /**
+   * Mark an operation as in flight until the matching endWork()
+   */
+  private beginWork(): void {
+    this.pendingWork++;
+    this.store.update({ isLoading: true });
+  }
+
+  private async endWork(): Promise<void> {
+    this.pendingWork--;
+    await this.updateSnapshot();
+  }
+
+  /**
+   * Publish a new snapshot of the stored session. Reads overlap, so only the
+   * latest one is applied.
+   */
+  private async updateSnapshot(): Promise<void> {
+    const version = ++this.snapshotVersion;
+
+    // A failed read still settles isLoading
+    let state: Partial<AuthState> = {};
+    try {
+      state = await this.readAuthState();
+    } catch (error) {
+      this.log('Failed to read the session:', error);
+    }
+
+    if (version === this.snapshotVersion) {
+      this.store.update({ ...state, isInitializing: this.initializing, isLoading: this.pendingWork > 0 });
     }
   }
 
   /**
    * Debug logging
    */
-  private log(...args: any[]): void {
+  private log(...args: unknown[]): void {
     if (this.config.debug) {
-      console.log('[OAuth2Service]', ...args);
+      this.config.logger.debug(...args);
     }
   }
 }
\ No newline at end of file
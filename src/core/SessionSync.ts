@@ -0,0 +1,131 @@
+/**
+ * Cross-tab session synchronization
+ */
+
+import type { LogoutReason } from './types';
+import { generateRandomString } from '../utils/crypto';
+
+/** Lease lifetime for the storage-based refresh lock (30 seconds) */
+const LEASE_DURATION = 30000;
+
+/** Interval for polling a lease held by another tab */
+const LEASE_POLL_INTERVAL = 250;
+
+/**
+ * Messages exchanged between tabs
+ */
+export type SessionSyncMessage =
+  | { type: 'logged_in' }
+  | { type: 'logged_out'; reason?: LogoutReason }
+  | { type: 'tokens_updated' };
+
+interface Lease {
+  owner: string;
+  expires: number;
+}
+
+/**
+ * Propagates session changes between tabs over BroadcastChannel (falling
+ * back to storage events) and serializes work across tabs with Web Locks
+ * (falling back to a lease in shared storage)
+ */
+export class SessionSync {
+  private readonly tabId = generateRandomString(16);
+  private channel?: BroadcastChannel;
+  private storageListener?: (event: StorageEvent) => void;
+
+  constructor(
+    private readonly name: string,
+    private readonly storage: Storage,
+    private readonly watchedKey: string,
+    private readonly onMessage: (message: SessionSyncMessage) => void
+  ) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => this.onMessage(event.data);
+    } else if (typeof window !== 'undefined') {
+      // Storage events only fire in other tabs, so they work as a one-way broadcast
+      this.storageListener = (event: StorageEvent) => {
+        if (event.storageArea !== this.storage || event.key !== this.watchedKey) {
+          return;
+        }
+
+        if (event.newValue === null) {
+          this.onMessage({ type: 'logged_out' });
+        } else if (event.oldValue === null) {
+          this.onMessage({ type: 'logged_in' });
+        } else {
+          this.onMessage({ type: 'tokens_updated' });
+        }
+      };
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  /**
+   * Notify the other tabs
+   */
+  broadcast(message: SessionSyncMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  /**
+   * Run a task while holding the cross-tab lock, so only one tab runs it at a time
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const lockName = `${this.name}_lock`;
+
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(lockName, task);
+    }
+
+    while (!this.acquireLease(lockName)) {
+      await new Promise(resolve => setTimeout(resolve, LEASE_POLL_INTERVAL));
+    }
+
+    try {
+      return await task();
+    } finally {
+      this.releaseLease(lockName);
+    }
+  }
+
+  /**
+   * Stop listening to other tabs
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = undefined;
+
+    if (this.storageListener) {
+      window.removeEventListener('storage', this.storageListener);
+      this.storageListener = undefined;
+    }
+  }
+
+  private readLease(key: string): Lease | null {
+    try {
+      return JSON.parse(this.storage.getItem(key) || 'null');
+    } catch {
+      return null;
+    }
+  }
+
+  private acquireLease(key: string): boolean {
+    const current = this.readLease(key);
+    if (current && current.owner !== this.tabId && current.expires > Date.now()) {
+      return false;
+    }
+
+    this.storage.setItem(key, JSON.stringify({ owner: this.tabId, expires: Date.now() + LEASE_DURATION }));
+
+    // Another tab may have written at the same time; the last write wins
+    return this.readLease(key)?.owner === this.tabId;
+  }
+
+  private releaseLease(key: string): void {
+    if (this.readLease(key)?.owner === this.tabId) {
+      this.storage.removeItem(key);
+    }
+  }
+}
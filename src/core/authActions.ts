@@ -0,0 +1,61 @@
+/**
+ * Actions shared by the UI framework bindings
+ */
+
+import { OAuth2Service } from './OAuth2Service';
+import type { OAuth2Config, UserClaims } from './types';
+import { OAuth2ClientError } from './errors';
+import { CLIENT_ERROR_CODES } from './constants';
+
+export interface AuthActions {
+  login: (additionalParams?: Record<string, string>) => Promise<void>;
+  logout: (redirectTo?: string) => Promise<void>;
+  refresh: () => Promise<void>;
+  getToken: () => Promise<string | null>;
+  fetchUserInfo: () => Promise<UserClaims>;
+  authFetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * Use a service as is or create one from a config. Checked structurally,
+ * so a service from the CommonJS build also works with the ES module one.
+ */
+export function resolveService(configOrService: OAuth2Config | OAuth2Service): OAuth2Service {
+  return typeof (configOrService as OAuth2Service).subscribe === 'function'
+    ? configOrService as OAuth2Service
+    : new OAuth2Service(configOrService as OAuth2Config);
+}
+
+/**
+ * Create the actions the bindings expose. login() and refresh() do not
+ * reject: login failures land in the service's state, and refresh failures
+ * are passed to onRefreshError, which gets null once a login starts or a
+ * refresh succeeds.
+ */
+export function createAuthActions(
+  service: OAuth2Service,
+  onRefreshError: (error: OAuth2ClientError | null) => void
+): AuthActions {
+  return {
+    login: async (additionalParams) => {
+      onRefreshError(null);
+      try {
+        await service.authorize(additionalParams);
+      } catch {
+        // Surfaced through the state's error
+      }
+    },
+    logout: (redirectTo) => service.logout(redirectTo),
+    refresh: async () => {
+      try {
+        await service.refreshAccessToken();
+        onRefreshError(null);
+      } catch (error) {
+        onRefreshError(OAuth2ClientError.from(error, CLIENT_ERROR_CODES.REFRESH_FAILED));
+      }
+    },
+    getToken: () => service.getAccessToken(),
+    fetchUserInfo: () => service.fetchUserInfo(),
+    authFetch: (input, init) => service.fetch(input, init),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Authenticated fetch wrapper
+ */
+
+import type { OAuth2Service } from './OAuth2Service';
+
+export type AuthFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Format a token_type for the Authorization header scheme; token types are
+ * case-insensitive (RFC 6749, section 5.1)
+ */
+export function formatAuthScheme(tokenType: string | null): string {
+  if (!tokenType || tokenType.toLowerCase() === 'bearer') {
+    return 'Bearer';
+  }
+  if (tokenType.toLowerCase() === 'dpop') {
+    return 'DPoP';
+  }
+  return tokenType;
+}
+
+/**
+ * Check whether a response is a Bearer or DPoP challenge for an invalid token
+ * (RFC 6750, RFC 9449)
+ */
+export function isInvalidTokenChallenge(response: Response): boolean {
+  if (response.status !== 401) {
+    return false;
+  }
+
+  const challenge = response.headers.get('WWW-Authenticate') || '';
+  return /^\s*(Bearer|DPoP)\b/i.test(challenge) && /\berror="?invalid_token"?/i.test(challenge);
+}
+
+function withAuthorization(request: Request, scheme: string, token: string | null, proof?: string): Request {
+  if (!token) {
+    return request;
+  }
+
+  const headers = new Headers(request.headers);
+  headers.set('Authorization', `${scheme} ${token}`);
+  if (proof) {
+    headers.set('DPoP', proof);
+  }
+  return new Request(request, { headers });
+}
+
+/**
+ * Send a request with the token, adding a DPoP proof for DPoP-bound tokens
+ */
+async function send(service: OAuth2Service, fetchImpl: typeof fetch, request: Request, token: string | null): Promise<Response> {
+  const scheme = formatAuthScheme(await service.getTokenType());
+  const signer = service.getDPoPSigner();
+
+  if (!token || scheme !== 'DPoP' || !signer) {
+    return fetchImpl(withAuthorization(request.clone(), scheme, token));
+  }
+
+  return signer.fetchWithProof(request.method, request.url, token, proof =>
+    fetchImpl(withAuthorization(request.clone(), scheme, token, proof))
+  );
+}
+
+/**
+ * Create a fetch function that attaches the service's access token, refreshes
+ * it when it is about to expire, and replays a request once after a refresh
+ * when the resource server reports the token as invalid. Requests go through
+ * fetchImpl, so certificate-bound tokens (RFC 8705) travel over the same mTLS
+ * connection they were issued for.
+ */
+export function createAuthFetch(
+  service: OAuth2Service,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): AuthFetch {
+  return async (input, init) => {
+    // Keep an unsent copy so the body can be replayed
+    const request = new Request(input, init);
+
+    const token = await service.getValidAccessToken();
+    const response = await send(service, fetchImpl, request, token);
+
+    if (!token || !isInvalidTokenChallenge(response)) {
+      return response;
+    }
+
+    // Another request may have refreshed already; spending the rotated refresh token again would be wasted
+    const current = await service.getAccessToken();
+    if (current && current !== token) {
+      return send(service, fetchImpl, request, current);
+    }
+
+    try {
+      await service.refreshAccessToken();
+    } catch {
+      return response;
+    }
+
+    return send(service, fetchImpl, request, await service.getAccessToken());
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Token endpoint client authentication
+ */
+
+import type { ClientAssertionKey, ClientAuthMethod } from './types';
+import { CLIENT_ASSERTION_LIFETIME, CLIENT_ASSERTION_TYPE_JWT_BEARER, CLIENT_ERROR_CODES } from './constants';
+import { OAuth2ClientError } from './errors';
+import { generateRandomString } from '../utils/crypto';
+import { resolveSigningKey, signJwt } from '../utils/jwt';
+
+export interface ClientAuthentication {
+  clientId: string;
+  /** Audience of client assertions */
+  tokenEndpoint: string;
+  /** Authentication method (default: 'none') */
+  tokenEndpointAuthMethod?: ClientAuthMethod;
+  clientSecret?: string;
+  clientAssertionKey?: ClientAssertionKey;
+}
+
+/**
+ * Form-urlencode a credential for HTTP Basic (RFC 6749, section 2.3.1)
+ */
+function encodeCredential(value: string): string {
+  return encodeURIComponent(value).replace(/%20/g, '+');
+}
+
+function requireSecret(auth: ClientAuthentication): string {
+  if (!auth.clientSecret) {
+    throw new OAuth2ClientError(
+      CLIENT_ERROR_CODES.CONFIGURATION_ERROR,
+      `${auth.tokenEndpointAuthMethod} requires a clientSecret`
+    );
+  }
+  return auth.clientSecret;
+}
+
+/**
+ * Sign a single-use private_key_jwt client assertion (RFC 7523, section 3)
+ */
+export async function createClientAssertion(auth: ClientAuthentication): Promise<string> {
+  if (!auth.clientAssertionKey) {
+    throw new OAuth2ClientError(CLIENT_ERROR_CODES.CONFIGURATION_ERROR, 'private_key_jwt requires a clientAssertionKey');
+  }
+
+  const { key, alg = 'RS256', kid } = auth.clientAssertionKey;
+  const now = Math.floor(Date.now() / 1000);
+
+  return signJwt(
+    {
+      iss: auth.clientId,
+      sub: auth.clientId,
+      aud: auth.tokenEndpoint,
+      jti: generateRandomString(32),
+      iat: now,
+      exp: now + CLIENT_ASSERTION_LIFETIME,
+    },
+    await resolveSigningKey(key, alg),
+    alg,
+    kid ? { typ: 'JWT', kid } : { typ: 'JWT' }
+  );
+}
+
+/**
+ * Add client credentials to a token endpoint request
+ */
+export async function applyClientAuthentication(
+  auth: ClientAuthentication,
+  headers: Headers,
+  body: URLSearchParams
+): Promise<void> {
+  switch (auth.tokenEndpointAuthMethod ?? 'none') {
+    case 'client_secret_basic':
+      body.delete('client_id');
+      headers.set(
+        'Authorization',
+        `Basic ${btoa(`${encodeCredential(auth.clientId)}:${encodeCredential(requireSecret(auth))}`)}`
+      );
+      break;
+    case 'client_secret_post':
+      body.set('client_id', auth.clientId);
+      body.set('client_secret', requireSecret(auth));
+      break;
+    case 'private_key_jwt':
+      body.set('client_id', auth.clientId);
+      body.set('client_assertion_type', CLIENT_ASSERTION_TYPE_JWT_BEARER);
+      body.set('client_assertion', await createClientAssertion(auth));
+      break;
+    default:
+      // Public clients only identify themselves; with the tls_* methods the
+      // certificate is presented by the fetch's TLS connection
+      body.set('client_id', auth.clientId);
+  }
+}
@@ -14,11 +14,59 @@ export const STORAGE_KEYS = {
   SCOPE: 'scope',
   CODE_VERIFIER: 'code_verifier',
   STATE: 'state',
+  NONCE: 'nonce',
+  USER_INFO: 'user_info',
+  TOKEN_TYPE: 'token_type',
 } as const;
 
 /** Default token refresh buffer (5 minutes) */
 export const DEFAULT_REFRESH_BUFFER = 300;
 
+/** Default allowed clock skew for ID token validation (1 minute) */
+export const DEFAULT_CLOCK_SKEW = 60;
+
+/** Default popup login timeout (5 minutes) */
+export const DEFAULT_POPUP_TIMEOUT = 300;
+
+/** Default silent authentication timeout (10 seconds) */
+export const DEFAULT_SILENT_RENEW_TIMEOUT = 10;
+
+/** Message type posted from the redirect page to the window that started the flow */
+export const CALLBACK_MESSAGE_TYPE = 'oauth2:callback';
+
+/** Header the BFF requires on proxied API calls; cross-site forms cannot set it */
+export const BFF_CSRF_HEADER = 'X-CSRF';
+
+/** Default time before expiry at which cached client credentials tokens are replaced (60 seconds) */
+export const DEFAULT_TOKEN_CACHE_BUFFER = 60;
+
+/** Lifetime of private_key_jwt client assertions (60 seconds) */
+export const CLIENT_ASSERTION_LIFETIME = 60;
+
+/** client_assertion_type for JWT client assertions (RFC 7523, section 2.2) */
+export const CLIENT_ASSERTION_TYPE_JWT_BEARER = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/** Default time logout waits for token revocation (5 seconds) */
+export const DEFAULT_REVOCATION_TIMEOUT = 5;
+
+/** Default time an introspection result is reused (30 seconds) */
+export const DEFAULT_INTROSPECTION_CACHE_TIME = 30;
+
+/** Lifetime of signed authorization request objects (5 minutes) */
+export const REQUEST_OBJECT_LIFETIME = 300;
+
+/** Default time to wait for a loopback redirect (5 minutes) */
+export const DEFAULT_LOOPBACK_TIMEOUT = 300;
+
+/** Default device flow polling interval when the server sends none (5 seconds, RFC 8628) */
+export const DEFAULT_DEVICE_POLL_INTERVAL = 5;
+
+/** Default number of retries for failed refresh requests */
+export const DEFAULT_REFRESH_RETRY_ATTEMPTS = 3;
+
+/** Default base delay in seconds for refresh retry backoff */
+export const DEFAULT_REFRESH_RETRY_DELAY = 1;
+
 /** PKCE code verifier length */
 export const CODE_VERIFIER_LENGTH = 128;
 
@@ -33,15 +81,70 @@ export const GRANT_TYPE = {
   AUTHORIZATION_CODE: 'authorization_code',
   REFRESH_TOKEN: 'refresh_token',
   CLIENT_CREDENTIALS: 'client_credentials',
+  DEVICE_CODE: 'urn:ietf:params:oauth:grant-type:device_code',
+  TOKEN_EXCHANGE: 'urn:ietf:params:oauth:grant-type:token-exchange',
+} as const;
+
+/** Token type identifiers for token exchange (RFC 8693, section 3) */
+export const TOKEN_TYPE = {
+  ACCESS_TOKEN: 'urn:ietf:params:oauth:token-type:access_token',
+  REFRESH_TOKEN: 'urn:ietf:params:oauth:token-type:refresh_token',
+  ID_TOKEN: 'urn:ietf:params:oauth:token-type:id_token',
+  JWT: 'urn:ietf:params:oauth:token-type:jwt',
+} as const;
+
+/** Well-known metadata paths */
+export const WELL_KNOWN = {
+  OPENID_CONFIGURATION: '/.well-known/openid-configuration',
+  OAUTH_AUTHORIZATION_SERVER: '/.well-known/oauth-authorization-server',
 } as const;
 
 /** Error codes */
 export const ERROR_CODES = {
   INVALID_REQUEST: 'invalid_request',
+  INVALID_CLIENT: 'invalid_client',
+  INVALID_GRANT: 'invalid_grant',
+  UNSUPPORTED_GRANT_TYPE: 'unsupported_grant_type',
   UNAUTHORIZED_CLIENT: 'unauthorized_client',
   ACCESS_DENIED: 'access_denied',
   UNSUPPORTED_RESPONSE_TYPE: 'unsupported_response_type',
   INVALID_SCOPE: 'invalid_scope',
   SERVER_ERROR: 'server_error',
   TEMPORARILY_UNAVAILABLE: 'temporarily_unavailable',
+  LOGIN_REQUIRED: 'login_required',
+  INTERACTION_REQUIRED: 'interaction_required',
+  CONSENT_REQUIRED: 'consent_required',
+  AUTHORIZATION_PENDING: 'authorization_pending',
+  SLOW_DOWN: 'slow_down',
+  EXPIRED_TOKEN: 'expired_token',
+  USE_DPOP_NONCE: 'use_dpop_nonce',
+} as const;
+
+/** Error codes raised by the client itself */
+export const CLIENT_ERROR_CODES = {
+  STATE_MISMATCH: 'state_mismatch',
+  MISSING_CODE_VERIFIER: 'missing_code_verifier',
+  MISSING_REFRESH_TOKEN: 'missing_refresh_token',
+  NETWORK_ERROR: 'network_error',
+  INVALID_RESPONSE: 'invalid_response',
+  DISCOVERY_FAILED: 'discovery_failed',
+  INVALID_ISSUER_METADATA: 'invalid_issuer_metadata',
+  UNSUPPORTED_CODE_CHALLENGE_METHOD: 'unsupported_code_challenge_method',
+  INVALID_ID_TOKEN: 'invalid_id_token',
+  JWKS_FAILED: 'jwks_failed',
+  USERINFO_FAILED: 'userinfo_failed',
+  POPUP_BLOCKED: 'popup_blocked',
+  POPUP_CLOSED: 'popup_closed',
+  POPUP_TIMEOUT: 'popup_timeout',
+  SILENT_RENEW_TIMEOUT: 'silent_renew_timeout',
+  TOKEN_DECRYPTION_FAILED: 'token_decryption_failed',
+  DEVICE_AUTHORIZATION_FAILED: 'device_authorization_failed',
+  LOOPBACK_TIMEOUT: 'loopback_timeout',
+  PUSHED_AUTHORIZATION_FAILED: 'pushed_authorization_failed',
+  REVOCATION_FAILED: 'revocation_failed',
+  REVOCATION_TIMEOUT: 'revocation_timeout',
+  INTROSPECTION_FAILED: 'introspection_failed',
+  LOGIN_FAILED: 'login_failed',
+  REFRESH_FAILED: 'refresh_failed',
+  CONFIGURATION_ERROR: 'configuration_error',
 } as const;
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Authorization server metadata discovery
+ * (OpenID Connect Discovery 1.0 and RFC 8414)
+ */
+
+import type { AuthorizationServerMetadata } from './types';
+import { CLIENT_ERROR_CODES, WELL_KNOWN } from './constants';
+import { OAuth2ClientError, readJsonResponse } from './errors';
+
+const metadataCache = new Map<string, Promise<AuthorizationServerMetadata>>();
+
+/**
+ * Strip a trailing slash so issuers compare and concatenate consistently
+ */
+function normalizeIssuer(issuer: string): string {
+  return issuer.endsWith('/') ? issuer.slice(0, -1) : issuer;
+}
+
+/**
+ * Get the candidate metadata URLs for an issuer, in the order they are tried
+ */
+export function getDiscoveryUrls(issuer: string): string[] {
+  const normalized = normalizeIssuer(issuer);
+  const { origin, pathname } = new URL(normalized);
+  const path = pathname === '/' ? '' : pathname;
+
+  return [
+    // OIDC appends the well-known suffix to the issuer
+    `${normalized}${WELL_KNOWN.OPENID_CONFIGURATION}`,
+    // RFC 8414 inserts it between the host and the issuer path
+    `${origin}${WELL_KNOWN.OAUTH_AUTHORIZATION_SERVER}${path}`,
+  ];
+}
+
+/**
+ * Validate a metadata document against the issuer it was fetched for
+ */
+export function validateMetadata(document: unknown, issuer: string): AuthorizationServerMetadata {
+  const invalid = (description: string) =>
+    new OAuth2ClientError(CLIENT_ERROR_CODES.INVALID_ISSUER_METADATA, description);
+
+  if (!document || typeof document !== 'object') {
+    throw invalid('Metadata document is not a JSON object');
+  }
+
+  const metadata = document as AuthorizationServerMetadata;
+
+  if (typeof metadata.issuer !== 'string' || normalizeIssuer(metadata.issuer) !== normalizeIssuer(issuer)) {
+    throw invalid(`Metadata issuer "${metadata.issuer}" does not match "${issuer}"`);
+  }
+
+  for (const field of ['authorization_endpoint', 'token_endpoint'] as const) {
+    if (typeof metadata[field] !== 'string' || !metadata[field]) {
+      throw invalid(`Metadata is missing ${field}`);
+    }
+  }
+
+  const challengeMethods = metadata.code_challenge_methods_supported;
+  if (!Array.isArray(challengeMethods) || !challengeMethods.includes('S256')) {
+    throw new OAuth2ClientError(
+      CLIENT_ERROR_CODES.UNSUPPORTED_CODE_CHALLENGE_METHOD,
+      `Issuer ${issuer} does not advertise the S256 code challenge method`
+    );
+  }
+
+  return metadata;
+}
+
+/**
+ * Fetch the first metadata document the issuer serves
+ */
+async function fetchMetadata(issuer: string, fetchImpl: typeof fetch): Promise<AuthorizationServerMetadata> {
+  for (const url of getDiscoveryUrls(issuer)) {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+    } catch {
+      continue;
+    }
+
+    if (response.ok) {
+      return validateMetadata(await readJsonResponse(response), issuer);
+    }
+  }
+
+  throw new OAuth2ClientError(CLIENT_ERROR_CODES.DISCOVERY_FAILED, `No metadata document found for issuer ${issuer}`);
+}
+
+/**
+ * Discover and cache the authorization server metadata for an issuer, with
+ * fetchImpl if the issuer requires e.g. a client certificate
+ */
+export function discoverMetadata(issuer: string, fetchImpl: typeof fetch = fetch): Promise<AuthorizationServerMetadata> {
+  const key = normalizeIssuer(issuer);
+  const cached = metadataCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = fetchMetadata(issuer, fetchImpl);
+  metadataCache.set(key, pending);
+
+  // Failed lookups are not cached so they can be retried
+  pending.catch(() => metadataCache.delete(key));
+
+  return pending;
+}
+
+/**
+ * Clear cached metadata for one issuer, or for all issuers
+ */
+export function clearMetadataCache(issuer?: string): void {
+  if (issuer) {
+    metadataCache.delete(normalizeIssuer(issuer));
+  } else {
+    metadataCache.clear();
+  }
+}
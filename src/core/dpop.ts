@@ -0,0 +1,151 @@
+/**
+ * DPoP proofs for sender-constrained tokens (RFC 9449)
+ */
+
+import type { CryptoKeyStore } from './types';
+import { ERROR_CODES } from './constants';
+import { base64UrlEncode, generateRandomString, sha256 } from '../utils/crypto';
+import { signJwt } from '../utils/jwt';
+
+/**
+ * Check whether a resource server asked for a DPoP nonce (RFC 9449, section 9)
+ */
+export function isDPoPNonceChallenge(response: Response): boolean {
+  if (response.status !== 401) {
+    return false;
+  }
+
+  const challenge = response.headers.get('WWW-Authenticate') || '';
+  return /^\s*DPoP\b/i.test(challenge)
+    && new RegExp(`\\berror="?${ERROR_CODES.USE_DPOP_NONCE}"?`, 'i').test(challenge);
+}
+
+/**
+ * Check whether a token endpoint response asked for a DPoP nonce (RFC 9449, section 8)
+ */
+export async function isDPoPNonceError(response: Response): Promise<boolean> {
+  if (response.status !== 400) {
+    return false;
+  }
+
+  try {
+    const body = await response.clone().json();
+    return body.error === ERROR_CODES.USE_DPOP_NONCE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signs DPoP proofs with a non-extractable ES256 key pair that is generated
+ * once and kept in a key store, and tracks the nonces servers hand out
+ */
+export class DPoPSigner {
+  private keyPair?: Promise<CryptoKeyPair>;
+  private publicJwk?: Promise<JsonWebKey>;
+  /** Latest DPoP-Nonce per origin; authorization and resource servers issue their own */
+  private nonces = new Map<string, string>();
+
+  constructor(
+    private keyStore: CryptoKeyStore,
+    private keyName: string = 'oauth2_dpop_key'
+  ) {}
+
+  /**
+   * Create a proof for a request; pass the access token for resource requests
+   */
+  async createProof(method: string, url: string, accessToken?: string | null): Promise<string> {
+    const { privateKey } = await this.getKeyPair();
+    const target = new URL(url);
+    const nonce = this.nonces.get(target.origin);
+
+    const payload: Record<string, unknown> = {
+      jti: generateRandomString(32),
+      htm: method.toUpperCase(),
+      // The htu claim excludes query and fragment (RFC 9449, section 4.2)
+      htu: `${target.origin}${target.pathname}`,
+      iat: Math.floor(Date.now() / 1000),
+    };
+    if (accessToken) {
+      payload.ath = base64UrlEncode(await sha256(accessToken));
+    }
+    if (nonce) {
+      payload.nonce = nonce;
+    }
+
+    return signJwt(payload, privateKey, 'ES256', { typ: 'dpop+jwt', jwk: await this.getPublicJwk() });
+  }
+
+  /**
+   * Remember the DPoP-Nonce of a response; returns true when it is a new nonce
+   */
+  updateNonce(url: string, response: Response): boolean {
+    const nonce = response.headers.get('DPoP-Nonce');
+    const { origin } = new URL(url);
+
+    if (!nonce || this.nonces.get(origin) === nonce) {
+      return false;
+    }
+
+    this.nonces.set(origin, nonce);
+    return true;
+  }
+
+  /**
+   * Send a request with a fresh proof, retrying once with a new proof when
+   * the server rejects it for a missing or stale nonce
+   */
+  async fetchWithProof(
+    method: string,
+    url: string,
+    accessToken: string | null,
+    send: (proof: string) => Promise<Response>
+  ): Promise<Response> {
+    const response = await send(await this.createProof(method, url, accessToken));
+
+    if (this.updateNonce(url, response)
+      && (isDPoPNonceChallenge(response) || await isDPoPNonceError(response))) {
+      return send(await this.createProof(method, url, accessToken));
+    }
+    return response;
+  }
+
+  private getKeyPair(): Promise<CryptoKeyPair> {
+    if (!this.keyPair) {
+      this.keyPair = this.loadKeyPair();
+      // Let a failed lookup be retried
+      this.keyPair.catch(() => {
+        this.keyPair = undefined;
+      });
+    }
+    return this.keyPair;
+  }
+
+  private async loadKeyPair(): Promise<CryptoKeyPair> {
+    const [privateKey, publicKey] = await Promise.all([
+      this.keyStore.getKey(`${this.keyName}_private`),
+      this.keyStore.getKey(`${this.keyName}_public`),
+    ]);
+    if (privateKey && publicKey) {
+      return { privateKey, publicKey };
+    }
+
+    // Only the private key is non-extractable; the public key goes into every proof
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    await this.keyStore.setKey(`${this.keyName}_private`, keyPair.privateKey);
+    await this.keyStore.setKey(`${this.keyName}_public`, keyPair.publicKey);
+    return keyPair;
+  }
+
+  private getPublicJwk(): Promise<JsonWebKey> {
+    if (!this.publicJwk) {
+      this.publicJwk = this.getKeyPair()
+        .then(({ publicKey }) => crypto.subtle.exportKey('jwk', publicKey))
+        .then(({ kty, crv, x, y }) => ({ kty, crv, x, y }));
+      this.publicJwk.catch(() => {
+        this.publicJwk = undefined;
+      });
+    }
+    return this.publicJwk;
+  }
+}
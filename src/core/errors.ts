@@ -0,0 +1,175 @@
+/**
+ * Error classes
+ */
+
+import type { OAuth2Error } from './types';
+import { CLIENT_ERROR_CODES } from './constants';
+
+export interface OAuth2ClientErrorOptions {
+  /** HTTP status of the response that caused the error */
+  status?: number;
+  errorUri?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error the client raises. It keeps the OAuth2 error
+ * response shape (error, error_description, error_uri), so code that reads
+ * those fields keeps working.
+ */
+export class OAuth2ClientError extends Error implements OAuth2Error {
+  /** Error code: a provider code from ERROR_CODES or a client code from CLIENT_ERROR_CODES */
+  readonly error: string;
+  readonly error_description?: string;
+  readonly error_uri?: string;
+  /** HTTP status of the response that caused the error, if any */
+  readonly status?: number;
+  /** Underlying error (ES2022 Error.cause, set by hand for older targets) */
+  readonly cause?: unknown;
+
+  constructor(code: string, description?: string, options: OAuth2ClientErrorOptions = {}) {
+    super(description || code);
+    this.name = 'OAuth2ClientError';
+    this.error = code;
+    this.error_description = description;
+    this.error_uri = options.errorUri;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  /** Alias of error */
+  get code(): string {
+    return this.error;
+  }
+
+  /**
+   * Return an OAuth2ClientError as is, convert an OAuth2 error response, or
+   * wrap anything else under fallbackCode
+   */
+  static from(error: unknown, fallbackCode: string): OAuth2ClientError {
+    if (error instanceof OAuth2ClientError) {
+      return error;
+    }
+    if (isOAuth2Error(error)) {
+      return new OAuth2ClientError(error.error, error.error_description, { errorUri: error.error_uri });
+    }
+    return new OAuth2ClientError(fallbackCode, error instanceof Error ? error.message : String(error), { cause: error });
+  }
+}
+
+/**
+ * Error response from the authorization server, e.g. invalid_grant (see ERROR_CODES)
+ */
+export class ProviderError extends OAuth2ClientError {
+  constructor(body: OAuth2Error, status?: number) {
+    super(body.error, body.error_description, { status, errorUri: body.error_uri });
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * The callback's state does not match the authorization request
+ */
+export class StateMismatchError extends OAuth2ClientError {
+  constructor() {
+    super(CLIENT_ERROR_CODES.STATE_MISMATCH, 'Invalid state parameter');
+    this.name = 'StateMismatchError';
+  }
+}
+
+/**
+ * The callback has no code, or the PKCE code verifier is gone
+ */
+export class MissingVerifierError extends OAuth2ClientError {
+  constructor() {
+    super(CLIENT_ERROR_CODES.MISSING_CODE_VERIFIER, 'Missing authorization code or code verifier');
+    this.name = 'MissingVerifierError';
+  }
+}
+
+/**
+ * The request never got a response, e.g. offline or blocked by CORS
+ */
+export class NetworkError extends OAuth2ClientError {
+  constructor(cause: unknown) {
+    super(CLIENT_ERROR_CODES.NETWORK_ERROR, `Network request failed: ${(cause as Error)?.message ?? cause}`, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server answered with something other than the expected JSON
+ */
+export class InvalidResponseError extends OAuth2ClientError {
+  constructor(description: string, status: number, cause?: unknown) {
+    super(CLIENT_ERROR_CODES.INVALID_RESPONSE, description, { status, cause });
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * An operation did not finish in time; the code tells which one
+ */
+export class TimeoutError extends OAuth2ClientError {
+  constructor(code: string, description: string) {
+    super(code, description);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Check whether a value has the shape of an OAuth2 error response
+ */
+export function isOAuth2Error(value: unknown): value is OAuth2Error {
+  return typeof value === 'object' && value !== null && typeof (value as OAuth2Error).error === 'string';
+}
+
+/**
+ * Fetch, turning failures to get any response into a NetworkError
+ */
+export async function sendRequest(
+  fetchImpl: typeof fetch,
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<Response> {
+  try {
+    return await fetchImpl(input, init);
+  } catch (error) {
+    // Abort reasons are already meaningful, e.g. a TimeoutError
+    if (error instanceof OAuth2ClientError) {
+      throw error;
+    }
+    throw new NetworkError(error);
+  }
+}
+
+/**
+ * Read the JSON body of an authorization server response. Error responses
+ * become a ProviderError; unparseable bodies an InvalidResponseError.
+ */
+export async function readJsonResponse<T>(response: Response): Promise<T> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch (error) {
+    throw new InvalidResponseError(`Expected a JSON response, got status ${response.status}`, response.status, error);
+  }
+
+  if (!response.ok) {
+    if (isOAuth2Error(body)) {
+      throw new ProviderError(body, response.status);
+    }
+    throw new InvalidResponseError(`Request failed with status ${response.status}`, response.status);
+  }
+
+  return body as T;
+}
+
+/**
+ * Throw the error a failed response carries; for responses without a body to read
+ */
+export async function checkResponse(response: Response): Promise<void> {
+  if (!response.ok) {
+    await readJsonResponse(response);
+  }
+}
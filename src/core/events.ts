@@ -0,0 +1,64 @@
+/**
+ * Typed event emitter
+ */
+
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Event emitter whose event names and payloads are checked against an event map
+ */
+export class TypedEventEmitter<Events extends object> {
+  private handlers = new Map<keyof Events, Set<EventHandler<any>>>();
+
+  /**
+   * @param onHandlerError Receives errors thrown by handlers, which never reach the emitting code
+   */
+  constructor(private onHandlerError: (error: unknown, event: keyof Events) => void = () => {}) {}
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler added with on()
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * Call the handlers of an event in subscription order
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.handlers.get(event);
+    if (!handlers) {
+      return;
+    }
+
+    // Copied, so handlers can unsubscribe while the event is dispatched
+    for (const handler of [...handlers]) {
+      try {
+        handler(payload);
+      } catch (error) {
+        this.onHandlerError(error, event);
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * OpenID Connect ID token validation
+ */
+
+import type { IdTokenClaims } from './types';
+import { CLIENT_ERROR_CODES } from './constants';
+import { OAuth2ClientError } from './errors';
+import { getSigningKey } from './jwks';
+import { decodeJwt, importVerificationKey, isSupportedAlgorithm, verifyJwtSignature } from '../utils/jwt';
+
+export interface IdTokenValidationOptions {
+  /** Expected issuer (iss claim) */
+  issuer: string;
+  /** Client ID that must be in the audience */
+  clientId: string;
+  /** JWKS endpoint of the issuer */
+  jwksUri: string;
+  /** Allowed clock skew in seconds */
+  clockSkew: number;
+  /** Fetch used for the JWKS request (default: the global fetch) */
+  fetch?: typeof fetch;
+}
+
+function invalidIdToken(description: string): OAuth2ClientError {
+  return new OAuth2ClientError(CLIENT_ERROR_CODES.INVALID_ID_TOKEN, description);
+}
+
+/**
+ * Verify an ID token's signature and claims, returning the claims
+ */
+export async function validateIdToken(idToken: string, options: IdTokenValidationOptions): Promise<IdTokenClaims> {
+  let jwt;
+  try {
+    jwt = decodeJwt<IdTokenClaims>(idToken);
+  } catch {
+    throw invalidIdToken('ID token is not a well-formed JWT');
+  }
+
+  const { header, payload: claims } = jwt;
+
+  if (!isSupportedAlgorithm(header.alg)) {
+    throw invalidIdToken(`Unsupported ID token signing algorithm: ${header.alg}`);
+  }
+
+  let verified: boolean;
+  try {
+    const jwk = await getSigningKey(options.jwksUri, header.kid, header.alg, options.fetch);
+    const key = await importVerificationKey(jwk, header.alg);
+    verified = await verifyJwtSignature(jwt, key, header.alg);
+  } catch (error) {
+    throw invalidIdToken(`Unable to verify ID token signature: ${(error as Error).message}`);
+  }
+
+  if (!verified) {
+    throw invalidIdToken('ID token signature is invalid');
+  }
+
+  if (!options.issuer || claims.iss !== options.issuer) {
+    throw invalidIdToken(`Unexpected ID token issuer: ${claims.iss}`);
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw invalidIdToken('ID token is missing the sub claim');
+  }
+
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audience.includes(options.clientId)) {
+    throw invalidIdToken('ID token audience does not include this client');
+  }
+
+  if (claims.azp !== undefined ? claims.azp !== options.clientId : audience.length > 1) {
+    throw invalidIdToken('ID token authorized party does not match this client');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof claims.exp !== 'number' || now > claims.exp + options.clockSkew) {
+    throw invalidIdToken('ID token has expired');
+  }
+
+  if (typeof claims.iat !== 'number' || claims.iat > now + options.clockSkew) {
+    throw invalidIdToken('ID token was issued in the future');
+  }
+
+  if (claims.nbf !== undefined && claims.nbf > now + options.clockSkew) {
+    throw invalidIdToken('ID token is not yet valid');
+  }
+
+  return claims;
+}
+
+/**
+ * Check that the ID token's nonce claim matches the nonce sent on the
+ * authorization request
+ */
+export function verifyNonce(idToken: string, nonce: string): void {
+  let claims: IdTokenClaims;
+  try {
+    claims = decodeJwt<IdTokenClaims>(idToken).payload;
+  } catch {
+    throw invalidIdToken('ID token is not a well-formed JWT');
+  }
+
+  if (typeof claims.nonce !== 'string' || claims.nonce !== nonce) {
+    throw invalidIdToken('ID token nonce does not match the authorization request');
+  }
+}
+
+/**
+ * Check that an ID token from a refresh names the same issuer and subject as
+ * the one it replaces (OIDC Core 12.2)
+ */
+export function verifyRefreshedIdToken(idToken: string, previousIdToken: string): void {
+  let claims: IdTokenClaims;
+  let previous: IdTokenClaims;
+  try {
+    claims = decodeJwt<IdTokenClaims>(idToken).payload;
+    previous = decodeJwt<IdTokenClaims>(previousIdToken).payload;
+  } catch {
+    throw invalidIdToken('ID token is not a well-formed JWT');
+  }
+
+  if (claims.iss !== previous.iss || claims.sub !== previous.sub) {
+    throw invalidIdToken('Refreshed ID token does not match the issuer and subject of the session');
+  }
+}
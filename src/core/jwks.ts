@@ -0,0 +1,95 @@
+/**
+ * JSON Web Key Set retrieval and caching
+ */
+
+import type { JsonWebKeySet } from './types';
+import { CLIENT_ERROR_CODES } from './constants';
+import { OAuth2ClientError, readJsonResponse, sendRequest } from './errors';
+import { JWS_ALGORITHMS, JwsAlgorithm } from '../utils/jwt';
+
+const jwksCache = new Map<string, Promise<JsonWebKey[]>>();
+
+async function fetchJwks(jwksUri: string, fetchImpl: typeof fetch): Promise<JsonWebKey[]> {
+  const response = await sendRequest(fetchImpl, jwksUri, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new OAuth2ClientError(
+      CLIENT_ERROR_CODES.JWKS_FAILED,
+      `Failed to fetch JWKS from ${jwksUri} (${response.status})`,
+      { status: response.status }
+    );
+  }
+
+  const jwks = await readJsonResponse<JsonWebKeySet>(response);
+  if (!jwks || !Array.isArray(jwks.keys)) {
+    throw new OAuth2ClientError(CLIENT_ERROR_CODES.JWKS_FAILED, `Invalid JWKS document at ${jwksUri}`);
+  }
+
+  return jwks.keys;
+}
+
+function loadJwks(jwksUri: string, forceReload: boolean, fetchImpl: typeof fetch): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && !forceReload) {
+    return cached;
+  }
+
+  const pending = fetchJwks(jwksUri, fetchImpl);
+  jwksCache.set(jwksUri, pending);
+  pending.catch(() => jwksCache.delete(jwksUri));
+
+  return pending;
+}
+
+function selectKey(keys: JsonWebKey[], kid: string | undefined, alg: JwsAlgorithm): JsonWebKey | undefined {
+  const candidates = keys.filter(key => {
+    const { kid: keyId, use, alg: keyAlg } = key as JsonWebKey & { kid?: string; use?: string };
+    return key.kty === JWS_ALGORITHMS[alg].kty
+      && (!use || use === 'sig')
+      && (!keyAlg || keyAlg === alg)
+      && (!kid || keyId === kid);
+  });
+
+  // Without a kid the choice is only unambiguous if a single key matches
+  if (!kid && candidates.length > 1) {
+    return undefined;
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Find the signing key for a JWT, reloading the key set once if the
+ * key is unknown (the issuer may have rotated its keys)
+ */
+export async function getSigningKey(
+  jwksUri: string,
+  kid: string | undefined,
+  alg: JwsAlgorithm,
+  fetchImpl: typeof fetch = fetch
+): Promise<JsonWebKey> {
+  let key = selectKey(await loadJwks(jwksUri, false, fetchImpl), kid, alg);
+
+  if (!key) {
+    key = selectKey(await loadJwks(jwksUri, true, fetchImpl), kid, alg);
+  }
+
+  if (!key) {
+    throw new OAuth2ClientError(
+      CLIENT_ERROR_CODES.JWKS_FAILED,
+      `No ${alg} signing key${kid ? ` with kid "${kid}"` : ''} found in JWKS`
+    );
+  }
+
+  return key;
+}
+
+/**
+ * Clear cached key sets
+ */
+export function clearJwksCache(jwksUri?: string): void {
+  if (jwksUri) {
+    jwksCache.delete(jwksUri);
+  } else {
+    jwksCache.clear();
+  }
+}
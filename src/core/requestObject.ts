@@ -0,0 +1,47 @@
+/**
+ * JWT-secured authorization requests (RFC 9101)
+ */
+
+import type { AuthorizationParams, ClientAssertionKey } from './types';
+import { REQUEST_OBJECT_LIFETIME } from './constants';
+import { generateRandomString } from '../utils/crypto';
+import { resolveSigningKey, signJwt } from '../utils/jwt';
+
+export interface RequestObjectOptions {
+  clientId: string;
+  /** Issuer identifier of the authorization server */
+  audience: string;
+  signingKey: ClientAssertionKey;
+}
+
+/**
+ * Sign authorization parameters as a request object for the request parameter
+ */
+export async function createRequestObject(
+  params: AuthorizationParams,
+  { clientId, audience, signingKey }: RequestObjectOptions
+): Promise<string> {
+  const { key, alg = 'RS256', kid } = signingKey;
+  const now = Math.floor(Date.now() / 1000);
+
+  const claims: Record<string, unknown> = {
+    iss: clientId,
+    aud: audience,
+    jti: generateRandomString(32),
+    iat: now,
+    nbf: now,
+    exp: now + REQUEST_OBJECT_LIFETIME,
+  };
+  Object.entries(params).forEach(([name, value]) => {
+    if (value !== undefined) {
+      claims[name] = value;
+    }
+  });
+
+  return signJwt(
+    claims,
+    await resolveSigningKey(key, alg),
+    alg,
+    kid ? { typ: 'oauth-authz-req+jwt', kid } : { typ: 'oauth-authz-req+jwt' }
+  );
+}
@@ -1,3 +1,6 @@
+import type { JwsAlgorithm } from '../utils/jwt';
+import type { OAuth2ClientError, ProviderError } from './errors';
+
 /**
  * Main configuration interface for OAuth2Service
  */
@@ -20,6 +23,66 @@ export interface OAuth2Config {
   /** Optional logout endpoint */
   logoutEndpoint?: string;
   
+  /** Device authorization endpoint for the device flow (RFC 8628) */
+  deviceAuthorizationEndpoint?: string;
+  
+  /** Token revocation endpoint (RFC 7009) */
+  revocationEndpoint?: string;
+  
+  /** Revoke the refresh and access tokens during logout */
+  revokeTokensOnLogout?: boolean;
+  
+  /** Seconds logout waits for revocation before signing out locally anyway */
+  revocationTimeout?: number;
+  
+  /** Callback when revoking a token fails; logout continues regardless */
+  onRevocationError?: (error: OAuth2ClientError, tokenTypeHint: TokenTypeHint) => void;
+  
+  /** Token introspection endpoint (RFC 7662) */
+  introspectionEndpoint?: string;
+  
+  /** Seconds to reuse an introspection result (default: 30) */
+  introspectionCacheTime?: number;
+  
+  /** Check the access token by introspection on startup and when the page becomes visible */
+  introspectSession?: boolean;
+  
+  /** Pushed authorization request endpoint (RFC 9126) */
+  pushedAuthorizationRequestEndpoint?: string;
+  
+  /** Push authorization parameters to the server and redirect with a request_uri */
+  usePar?: boolean;
+  
+  /** Signing key for JWT-secured authorization requests (RFC 9101); requires issuer */
+  requestObjectKey?: ClientAssertionKey;
+  
+  /** Issuer identifier of the authorization server */
+  issuer?: string;
+  
+  /** Authorization server metadata (populated by OAuth2Service.fromIssuer) */
+  metadata?: AuthorizationServerMetadata;
+  
+  /** JWKS endpoint; when set, ID tokens are verified before being accepted */
+  jwksUri?: string;
+  
+  /** Allowed clock skew in seconds when validating ID token timestamps */
+  clockSkew?: number;
+  
+  /** Send an OIDC nonce and require it in the returned ID token */
+  useNonce?: boolean;
+  
+  /** OIDC UserInfo endpoint URL */
+  userinfoEndpoint?: string;
+  
+  /** Fetch UserInfo claims after login and after every token refresh */
+  loadUserInfo?: boolean;
+  
+  /** Renew sessions without a refresh token via prompt=none in a hidden iframe */
+  silentRenew?: boolean;
+  
+  /** Seconds to wait for silent authentication before giving up */
+  silentRenewTimeout?: number;
+  
   /** Enable automatic token refresh before expiry */
   autoRefresh?: boolean;
   
@@ -32,14 +95,224 @@ export interface OAuth2Config {
   /** Callback on authentication state change */
   onAuthStateChange?: (isAuthenticated: boolean) => void;
   
+  /** Callback for each refresh outcome: success, retry, rejected refresh token or failure */
+  onRefreshEvent?: (event: RefreshEvent) => void;
+  
+  /** Number of retries for refresh requests that fail with anything but invalid_grant */
+  refreshRetryAttempts?: number;
+  
+  /** Base delay in seconds for exponential refresh retry backoff */
+  refreshRetryDelay?: number;
+  
   /** Storage key prefix for tokens */
   storageKeyPrefix?: string;
   
-  /** Custom storage implementation */
-  storage?: Storage;
+  /** Custom storage implementation: a DOM Storage or an async TokenStore */
+  storage?: Storage | TokenStore;
+  
+  /** Encrypt stored values with AES-GCM under a non-extractable key */
+  encryptTokens?: boolean;
+  
+  /** Where the token encryption and DPoP keys are kept (default: IndexedDB) */
+  encryptionKeyStore?: CryptoKeyStore;
+  
+  /** Bind tokens to a DPoP key and send proofs with token and resource requests (RFC 9449) */
+  dpop?: boolean;
+  
+  /** How the client authenticates at the token endpoint (default: 'none', for public clients) */
+  tokenEndpointAuthMethod?: ClientAuthMethod;
+  
+  /** Client secret for client_secret_basic and client_secret_post; keep it on the server */
+  clientSecret?: string;
+  
+  /** Signing key for private_key_jwt client assertions */
+  clientAssertionKey?: ClientAssertionKey;
+  
+  /**
+   * Fetch used for authorization server requests, discovery, JWKS and resource
+   * requests through fetch(), e.g. one sending a client certificate
+   */
+  fetch?: typeof fetch;
+  
+  /** Synchronize login, logout and refreshes across browser tabs */
+  syncTabs?: boolean;
   
   /** Enable debug logging */
   debug?: boolean;
+  
+  /** Where log output goes (default: the console) */
+  logger?: Logger;
+}
+
+/**
+ * Log output sink; debug messages are only written when debug is enabled
+ */
+export interface Logger {
+  debug(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Configuration for OAuth2Service.fromIssuer; endpoints default to the discovered ones
+ */
+export type OAuth2IssuerConfig = Omit<
+  OAuth2Config,
+  'authorizationEndpoint' | 'tokenEndpoint' | 'issuer' | 'metadata'
+> & Partial<Pick<OAuth2Config, 'authorizationEndpoint' | 'tokenEndpoint'>>;
+
+/**
+ * Options for popup-window login
+ */
+export interface PopupOptions {
+  /** Popup width in pixels */
+  width?: number;
+  /** Popup height in pixels */
+  height?: number;
+  /** Seconds to wait for the callback before giving up */
+  timeout?: number;
+}
+
+/**
+ * Asynchronous key-value store for tokens
+ */
+export interface TokenStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Store for WebCrypto keys, which may be non-extractable and so cannot be serialized
+ */
+export interface CryptoKeyStore {
+  getKey(name: string): Promise<CryptoKey | null>;
+  setKey(name: string, key: CryptoKey): Promise<void>;
+  removeKey(name: string): Promise<void>;
+}
+
+/**
+ * Device authorization response (RFC 8628, section 3.2)
+ */
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  /** Verification URI that includes the user code, e.g. for a QR code */
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * Options for polling the token endpoint during the device flow
+ */
+export interface DevicePollOptions {
+  /** Stop polling and reject with the signal's reason */
+  signal?: AbortSignal;
+}
+
+/**
+ * How a client authenticates at the token endpoint (OIDC Core, section 9;
+ * RFC 8705 for the tls_* methods)
+ */
+export type ClientAuthMethod =
+  | 'none'
+  | 'client_secret_basic'
+  | 'client_secret_post'
+  | 'private_key_jwt'
+  | 'tls_client_auth'
+  | 'self_signed_tls_client_auth';
+
+/**
+ * Private key for signing client assertions (RFC 7523) and request objects (RFC 9101)
+ */
+export interface ClientAssertionKey {
+  /** A CryptoKey with the sign usage, or a private JWK */
+  key: CryptoKey | JsonWebKey;
+  /** JWS algorithm (default: 'RS256') */
+  alg?: JwsAlgorithm;
+  /** Key ID registered with the authorization server */
+  kid?: string;
+}
+
+/**
+ * Configuration for a confidential client using the client credentials grant
+ */
+export interface ClientCredentialsConfig {
+  clientId: string;
+  tokenEndpoint: string;
+  /** Client authentication method (default: 'client_secret_basic') */
+  tokenEndpointAuthMethod?: ClientAuthMethod;
+  /** Client secret for client_secret_basic and client_secret_post */
+  clientSecret?: string;
+  /** Signing key for private_key_jwt */
+  clientAssertionKey?: ClientAssertionKey;
+  /** Fetch used for token requests, e.g. one sending a client certificate */
+  fetch?: typeof fetch;
+  /** Seconds before expiry at which a cached token is replaced (default: 60) */
+  cacheBuffer?: number;
+}
+
+/**
+ * Options for a client credentials token; tokens are cached per scope and audience
+ */
+export interface ClientCredentialsTokenOptions {
+  scope?: string;
+  audience?: string;
+}
+
+/**
+ * Token exchange request (RFC 8693, section 2.1)
+ */
+export interface TokenExchangeParams {
+  subject_token: string;
+  subject_token_type: string;
+  actor_token?: string;
+  actor_token_type?: string;
+  requested_token_type?: string;
+  audience?: string;
+  resource?: string;
+  scope?: string;
+}
+
+/**
+ * Token exchange response (RFC 8693, section 2.2.1)
+ */
+export interface TokenExchangeResponse extends TokenResponse {
+  issued_token_type: string;
+}
+
+/**
+ * Authorization request values to keep until the callback, e.g. in a server session
+ */
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  codeVerifier: string;
+  nonce?: string;
+  /** When a pushed request_uri in the URL expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * Pushed authorization response (RFC 9126, section 2.2)
+ */
+export interface PushedAuthorizationResponse {
+  request_uri: string;
+  expires_in: number;
+}
+
+/**
+ * Parameters for exchanging a callback's authorization code without browser storage
+ */
+export interface CodeExchangeParams {
+  /** Full callback URL, including the code and state query parameters */
+  callbackUrl: string;
+  state: string;
+  codeVerifier: string;
+  nonce?: string | null;
+  /** Redirect URI of the authorization request, if it overrode the configured one */
+  redirectUri?: string;
 }
 
 /**
@@ -54,6 +327,131 @@ export interface TokenResponse {
   id_token?: string;
 }
 
+/**
+ * User claims (OpenID Connect Core, section 5.1)
+ */
+export interface UserClaims {
+  sub: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  middle_name?: string;
+  nickname?: string;
+  preferred_username?: string;
+  profile?: string;
+  picture?: string;
+  website?: string;
+  email?: string;
+  email_verified?: boolean;
+  gender?: string;
+  birthdate?: string;
+  zoneinfo?: string;
+  locale?: string;
+  phone_number?: string;
+  phone_number_verified?: boolean;
+  updated_at?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * ID token claims (OpenID Connect Core, section 2)
+ */
+export interface IdTokenClaims extends UserClaims {
+  iss: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nbf?: number;
+  azp?: string;
+  nonce?: string;
+  auth_time?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * JSON Web Key Set document
+ */
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+/**
+ * Outcome of a token refresh attempt
+ */
+export type RefreshEvent =
+  /** Tokens were refreshed; rotated is true if a new refresh token replaced the old one */
+  | { type: 'refresh_succeeded'; rotated: boolean }
+  /** A refresh request failed and will be retried after delay milliseconds */
+  | { type: 'refresh_retrying'; attempt: number; delay: number; error: OAuth2ClientError }
+  /** The provider answered invalid_grant (expired, revoked or reused refresh token); the session ended */
+  | { type: 'refresh_token_rejected'; error: ProviderError }
+  /** The refresh failed for any other reason, e.g. after all retries; the session is kept */
+  | { type: 'refresh_failed'; attempts: number; error: OAuth2ClientError };
+
+/**
+ * Why a session ended: a logout() call, a refresh that could not continue the
+ * session, an expired access token, or a session found to be unusable (a
+ * value that fails to decrypt, or a token introspection reports inactive)
+ */
+export type LogoutReason = 'user' | 'refresh_failed' | 'expired' | 'session_invalid';
+
+/**
+ * How a login was started
+ */
+export type LoginMethod = 'redirect' | 'popup' | 'silent' | 'device';
+
+/**
+ * Lifecycle events of OAuth2Service and their payloads (see OAuth2Service.on)
+ */
+export interface OAuth2Events {
+  /** A login was started */
+  loginStarted: { method: LoginMethod };
+  /** An authorization code from a callback was exchanged for tokens */
+  callbackHandled: { tokens: TokenResponse };
+  /** Tokens from a login or refresh were stored; expiresAt is in milliseconds */
+  tokensStored: { tokens: TokenResponse; expiresAt: number | null };
+  /** The automatic refresh was scheduled for refreshAt (milliseconds) */
+  refreshScheduled: { refreshAt: number; expiresAt: number };
+  /** Tokens were refreshed; rotated is true if a new refresh token replaced the old one */
+  refreshSucceeded: { tokens: TokenResponse; rotated: boolean };
+  /** A refresh request failed and will be retried after delay milliseconds */
+  refreshRetrying: { attempt: number; delay: number; error: OAuth2ClientError };
+  /** The provider answered invalid_grant, e.g. on reuse of a rotated refresh token; loggedOut follows */
+  refreshTokenRejected: { error: ProviderError };
+  /** A refresh failed after any retries; attempts counts the refresh grant requests sent */
+  refreshFailed: { error: OAuth2ClientError; attempts: number };
+  /** The stored access token was found expired; loggedOut follows unless a refresh token is held */
+  tokenExpired: { expiresAt: number };
+  /** The local session ended */
+  loggedOut: { reason: LogoutReason };
+  /** A login or callback failed */
+  error: { error: OAuth2ClientError };
+}
+
+/**
+ * Which kind of token is being revoked or introspected (RFC 7009, section 2.1)
+ */
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+/**
+ * Token introspection response (RFC 7662, section 2.2)
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [key: string]: unknown;
+}
+
 /**
  * OAuth2 error response
  */
@@ -68,13 +466,17 @@ export interface OAuth2Error {
  */
 export interface AuthState {
   isAuthenticated: boolean;
+  /** True until the stored session has been checked and any callback handled */
+  isInitializing: boolean;
+  /** True while any operation, including the initial check, is in flight */
   isLoading: boolean;
   accessToken: string | null;
   refreshToken: string | null;
   idToken: string | null;
   expiresAt: number | null;
   scope: string | null;
-  error: OAuth2Error | null;
+  user: UserClaims | null;
+  error: OAuth2ClientError | null;
 }
 
 /**
@@ -100,14 +502,52 @@ export interface AuthorizationParams {
   [key: string]: string | undefined;
 }
 
+/**
+ * Authorization server metadata (OpenID Connect Discovery / RFC 8414)
+ */
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+  userinfo_endpoint?: string;
+  jwks_uri?: string;
+  revocation_endpoint?: string;
+  introspection_endpoint?: string;
+  device_authorization_endpoint?: string;
+  pushed_authorization_request_endpoint?: string;
+  require_pushed_authorization_requests?: boolean;
+  scopes_supported?: string[];
+  response_types_supported?: string[];
+  grant_types_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+  [key: string]: unknown;
+}
+
 /**
  * Token request parameters
  */
 export interface TokenRequestParams {
-  grant_type: 'authorization_code' | 'refresh_token';
+  grant_type:
+    | 'authorization_code'
+    | 'refresh_token'
+    | 'client_credentials'
+    | 'urn:ietf:params:oauth:grant-type:device_code'
+    | 'urn:ietf:params:oauth:grant-type:token-exchange';
   code?: string;
   refresh_token?: string;
-  client_id: string;
+  device_code?: string;
+  scope?: string;
+  audience?: string;
+  resource?: string;
+  subject_token?: string;
+  subject_token_type?: string;
+  actor_token?: string;
+  actor_token_type?: string;
+  requested_token_type?: string;
+  client_id?: string;
   redirect_uri?: string;
   code_verifier?: string;
 }
\ No newline at end of file
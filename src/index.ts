@@ -8,11 +8,48 @@
 export { OAuth2Service } from './core/OAuth2Service';
 export * from './core/types';
 export * from './core/constants';
+export {
+  OAuth2ClientError,
+  ProviderError,
+  StateMismatchError,
+  MissingVerifierError,
+  NetworkError,
+  InvalidResponseError,
+  TimeoutError,
+  isOAuth2Error,
+} from './core/errors';
+export type { OAuth2ClientErrorOptions } from './core/errors';
+export { TypedEventEmitter } from './core/events';
+export type { EventHandler } from './core/events';
+export { AuthStore } from './core/AuthStore';
+export type { AuthStateListener } from './core/AuthStore';
+export { createAuthActions } from './core/authActions';
+export type { AuthActions } from './core/authActions';
+export { discoverMetadata, validateMetadata, getDiscoveryUrls, clearMetadataCache } from './core/discovery';
+export { validateIdToken, verifyNonce, verifyRefreshedIdToken } from './core/idToken';
+export type { IdTokenValidationOptions } from './core/idToken';
+export { getSigningKey, clearJwksCache } from './core/jwks';
+export { createAuthFetch, formatAuthScheme, isInvalidTokenChallenge } from './core/authFetch';
+export { SessionSync } from './core/SessionSync';
+export type { SessionSyncMessage } from './core/SessionSync';
+export type { AuthFetch } from './core/authFetch';
+export { BffClient } from './core/BffClient';
+export { ClientCredentialsClient } from './core/ClientCredentialsClient';
+export { applyClientAuthentication, createClientAssertion } from './core/clientAuth';
+export type { ClientAuthentication } from './core/clientAuth';
+export { createRequestObject } from './core/requestObject';
+export type { RequestObjectOptions } from './core/requestObject';
+export { DPoPSigner, isDPoPNonceChallenge, isDPoPNonceError } from './core/dpop';
+export type { BffClientOptions } from './core/BffClient';
 
 // Utility exports
 export * from './utils/crypto';
 export * from './utils/storage';
+export * from './utils/stores';
 export * from './utils/url';
+export * from './utils/jwt';
+export * from './utils/popup';
+export * from './utils/iframe';
 
 // React exports (will be tree-shaken if not used)
 export { useOAuth2 } from './react/useOAuth2';
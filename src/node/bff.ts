@@ -0,0 +1,247 @@
+/**
+ * Backend-for-Frontend request handlers
+ */
+
+import { OAuth2Service } from '../core/OAuth2Service';
+import { BFF_CSRF_HEADER, ERROR_CODES } from '../core/constants';
+import { OAuth2ClientError } from '../core/errors';
+import type { OAuth2Config } from '../core/types';
+import { SessionTokenStore } from '../utils/stores';
+import { CookieOptions, getChunkedCookie, sealSession, serializeChunkedCookie, unsealSession } from './session';
+
+export interface BffOptions {
+  /** OAuth2 client configuration; redirectUri must point at the callback route */
+  oauth: OAuth2Config;
+  /** Secret the session cookie key is derived from (at least 32 characters) */
+  secret: string;
+  /** Upstream API that /api/* requests are forwarded to */
+  apiBaseUrl: string;
+  /** Path prefix for the BFF routes (default: '') */
+  basePath?: string;
+  /** Session cookie name (default: 'oauth2_session') */
+  cookieName?: string;
+  /** Session cookie attributes; the cookie is always HttpOnly */
+  cookie?: Omit<CookieOptions, 'httpOnly'>;
+  /** Where to send the user after login when no returnTo was given (default: '/') */
+  postLoginRedirect?: string;
+  /** Where to send the user after logout (default: '/') */
+  postLogoutRedirect?: string;
+}
+
+/**
+ * Handles a BFF route, or resolves with null when the request is for another route
+ */
+export type BffHandler = (request: Request) => Promise<Response | null>;
+
+type BffRoute = 'login' | 'callback' | 'logout' | 'session' | 'api';
+
+type Session = Record<string, unknown>;
+
+interface PendingAuthorization {
+  state: string;
+  codeVerifier: string;
+  nonce?: string;
+  returnTo: string;
+}
+
+/** Session key for the authorization request awaiting its callback */
+const PENDING_AUTHORIZATION_KEY = 'pending_authorization';
+
+/** Hop-by-hop and BFF-only headers that are not forwarded to the API */
+const EXCLUDED_REQUEST_HEADERS = ['authorization', 'connection', 'content-length', 'cookie', 'host', BFF_CSRF_HEADER.toLowerCase()];
+
+/** Headers not copied from API responses; the body is already decoded */
+const EXCLUDED_RESPONSE_HEADERS = ['connection', 'content-encoding', 'content-length', 'set-cookie', 'transfer-encoding'];
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+function redirect(location: string): Response {
+  // Response.redirect() returns immutable headers, which would block the session cookie
+  return new Response(null, { status: 302, headers: { Location: location } });
+}
+
+function errorResponse(error: unknown): Response {
+  const body = OAuth2ClientError.from(error, ERROR_CODES.INVALID_REQUEST);
+  return json({ error: body.error, error_description: body.error_description }, 400);
+}
+
+/**
+ * Accept only same-origin paths, so returnTo cannot become an open redirect
+ */
+function isLocalPath(path: string | null): path is string {
+  return !!path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\');
+}
+
+/**
+ * Create request handlers for a Backend-for-Frontend: the server runs the
+ * authorization code flow, keeps tokens in an encrypted HttpOnly cookie and
+ * attaches them to proxied API calls, so tokens never reach the browser.
+ *
+ * Routes, relative to basePath: GET /login, GET /callback, GET /logout,
+ * GET /session and /api/* (forwarded to apiBaseUrl).
+ */
+export function createBffHandler(options: BffOptions): BffHandler {
+  const {
+    basePath = '',
+    cookieName = 'oauth2_session',
+    postLoginRedirect = '/',
+    postLogoutRedirect = '/',
+  } = options;
+  const apiBaseUrl = options.apiBaseUrl.replace(/\/$/, '');
+  const apiPrefix = `${basePath}/api`;
+
+  function matchRoute(pathname: string): BffRoute | null {
+    if (pathname === apiPrefix || pathname.startsWith(`${apiPrefix}/`)) {
+      return 'api';
+    }
+
+    const routes: BffRoute[] = ['login', 'callback', 'logout', 'session'];
+    return routes.find(route => pathname === `${basePath}/${route}`) ?? null;
+  }
+
+  /**
+   * Set-Cookie values for the session; real ID and access tokens rarely fit
+   * one cookie, so it is split across as many as needed
+   */
+  async function sessionCookies(session: Session, previousChunks: number): Promise<string[]> {
+    const sealed = Object.keys(session).length === 0 ? '' : await sealSession(session, options.secret, cookieName);
+    return serializeChunkedCookie(cookieName, sealed, { ...options.cookie, httpOnly: true }, previousChunks);
+  }
+
+  async function login(request: Request, service: OAuth2Service, session: Session): Promise<Response> {
+    const returnTo = new URL(request.url).searchParams.get('returnTo');
+    const { url, state, codeVerifier, nonce } = await service.createAuthorizationUrl();
+
+    const pending: PendingAuthorization = {
+      state,
+      codeVerifier,
+      nonce,
+      returnTo: isLocalPath(returnTo) ? returnTo : postLoginRedirect,
+    };
+    session[PENDING_AUTHORIZATION_KEY] = pending;
+
+    return redirect(url);
+  }
+
+  async function callback(request: Request, service: OAuth2Service, session: Session): Promise<Response> {
+    const pending = session[PENDING_AUTHORIZATION_KEY] as PendingAuthorization | undefined;
+    delete session[PENDING_AUTHORIZATION_KEY];
+
+    if (!pending) {
+      return json({ error: 'invalid_request', error_description: 'No login in progress' }, 400);
+    }
+
+    await service.exchangeCode({
+      callbackUrl: request.url,
+      state: pending.state,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+    });
+
+    return redirect(pending.returnTo);
+  }
+
+  async function logout(request: Request, service: OAuth2Service, session: Session): Promise<Response> {
+    const logoutUrl = service.createLogoutUrl(new URL(postLogoutRedirect, request.url).href);
+
+    await service.logout();
+    Object.keys(session).forEach(key => delete session[key]);
+
+    return redirect(logoutUrl || postLogoutRedirect);
+  }
+
+  async function proxy(request: Request, service: OAuth2Service): Promise<Response> {
+    if (!request.headers.has(BFF_CSRF_HEADER)) {
+      return json({ error: 'invalid_request', error_description: `Missing ${BFF_CSRF_HEADER} header` }, 403);
+    }
+
+    if (!(await service.getValidAccessToken())) {
+      return json({ error: 'unauthorized', error_description: 'Not logged in' }, 401);
+    }
+
+    const { pathname, search } = new URL(request.url);
+    const headers = new Headers();
+    request.headers.forEach((value, name) => {
+      if (!EXCLUDED_REQUEST_HEADERS.includes(name)) {
+        headers.set(name, value);
+      }
+    });
+
+    // Refreshes server-side and replays once if the API rejects the token
+    const upstream = await service.fetch(`${apiBaseUrl}${pathname.slice(apiPrefix.length)}${search}`, {
+      method: request.method,
+      headers,
+      body: ['GET', 'HEAD'].includes(request.method) ? undefined : await request.arrayBuffer(),
+      redirect: 'manual',
+    });
+
+    const responseHeaders = new Headers();
+    upstream.headers.forEach((value, name) => {
+      if (!EXCLUDED_RESPONSE_HEADERS.includes(name)) {
+        responseHeaders.set(name, value);
+      }
+    });
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: responseHeaders,
+    });
+  }
+
+  return async request => {
+    const route = matchRoute(new URL(request.url).pathname);
+    if (!route) {
+      return null;
+    }
+
+    const { value: sealed, chunks } = getChunkedCookie(request.headers.get('cookie'), cookieName);
+    const restored = await unsealSession(sealed, options.secret, cookieName);
+    const session: Session = restored ?? {};
+    const original = JSON.stringify(session);
+
+    const service = new OAuth2Service({
+      ...options.oauth,
+      storage: new SessionTokenStore(session),
+      autoRefresh: false,
+      silentRenew: false,
+      syncTabs: false,
+    });
+    await service.ready;
+
+    let response: Response;
+    try {
+      switch (route) {
+        case 'login':
+          response = await login(request, service, session);
+          break;
+        case 'callback':
+          response = await callback(request, service, session);
+          break;
+        case 'logout':
+          response = await logout(request, service, session);
+          break;
+        case 'session':
+          response = json({ isAuthenticated: !!(await service.getValidAccessToken()) });
+          break;
+        case 'api':
+          response = await proxy(request, service);
+          break;
+      }
+    } catch (error) {
+      response = errorResponse(error);
+    }
+
+    // Only rewrite the cookie when the session changed or could not be read
+    if (JSON.stringify(session) !== original || (sealed && !restored)) {
+      (await sessionCookies(session, chunks)).forEach(cookie => response.headers.append('Set-Cookie', cookie));
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Node.js http adapters: BFF handlers and agent-bound fetch
+ */
+
+import { Agent, IncomingMessage, ServerResponse, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { Readable } from 'stream';
+import type { TLSSocket } from 'tls';
+import type { BffHandler } from './bff';
+
+/**
+ * Listener usable with http.createServer() or as Express/Connect middleware
+ */
+export type NodeListener = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => Promise<void>;
+
+async function toRequest(req: IncomingMessage): Promise<Request> {
+  const protocol = (req.socket as TLSSocket).encrypted ? 'https' : 'http';
+  // Express rewrites req.url inside mounted routers; originalUrl keeps the full path
+  const path = (req as IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? '/';
+
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  });
+
+  let body: ArrayBuffer | undefined;
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    body = new Uint8Array(Buffer.concat(chunks)).buffer;
+  }
+
+  return new Request(`${protocol}://${req.headers.host}${path}`, {
+    method: req.method,
+    headers,
+    body,
+  });
+}
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie') {
+      res.setHeader(name, value);
+    }
+  });
+
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) {
+    res.setHeader('Set-Cookie', cookies);
+  }
+
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+/**
+ * Adapt a BFF handler to Node's http API. Requests for other routes go to
+ * next() when used as middleware, or get a 404 otherwise.
+ */
+export function toNodeListener(handler: BffHandler): NodeListener {
+  return async (req, res, next) => {
+    try {
+      const response = await handler(await toRequest(req));
+
+      if (response) {
+        await writeResponse(res, response);
+      } else if (next) {
+        next();
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    } catch (error) {
+      if (next) {
+        next(error);
+      } else {
+        res.statusCode = 500;
+        res.end();
+      }
+    }
+  };
+}
+
+/** Statuses whose responses never have a body */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Create a fetch that sends requests through a Node agent, e.g. an
+ * https.Agent with a client certificate for mTLS client authentication
+ * (tls_client_auth) and certificate-bound tokens (RFC 8705):
+ *
+ *   fetch: createAgentFetch(new https.Agent({ cert, key }))
+ */
+export function createAgentFetch(agent: Agent): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const body = request.method === 'GET' || request.method === 'HEAD'
+      ? undefined
+      : Buffer.from(await request.arrayBuffer());
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise<Response>((resolve, reject) => {
+      const req = send(url, {
+        method: request.method,
+        headers: Object.fromEntries(request.headers),
+        agent,
+        signal: request.signal,
+      }, res => {
+        const headers = new Headers();
+        Object.entries(res.headers).forEach(([name, value]) => {
+          (Array.isArray(value) ? value : [value]).forEach(item => {
+            if (item !== undefined) {
+              headers.append(name, item);
+            }
+          });
+        });
+
+        const status = res.statusCode ?? 500;
+        resolve(new Response(
+          NULL_BODY_STATUSES.includes(status) ? null : Readable.toWeb(res) as ReadableStream<Uint8Array>,
+          { status, statusText: res.statusMessage, headers }
+        ));
+      });
+
+      req.on('error', reject);
+      req.end(body);
+    });
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * OAuth2 PKCE Client server entry
+ *
+ * Backend-for-Frontend handlers that keep tokens on the server, loopback
+ * login and agent-bound fetch for mTLS
+ */
+
+import { webcrypto } from 'crypto';
+
+// Node.js 18 only exposes WebCrypto through the crypto module; the client uses the global
+if (typeof globalThis.crypto === 'undefined') {
+  globalThis.crypto = webcrypto as Crypto;
+}
+
+export { createBffHandler } from './bff';
+export type { BffHandler, BffOptions } from './bff';
+export { createAgentFetch, toNodeListener } from './http';
+export type { NodeListener } from './http';
+export { loginWithLoopback } from './loopback';
+export type { LoopbackLoginOptions } from './loopback';
+export {
+  sealSession,
+  unsealSession,
+  parseCookies,
+  getCookie,
+  serializeCookie,
+  getChunkedCookie,
+  serializeChunkedCookie,
+} from './session';
+export type { CookieOptions } from './session';
@@ -0,0 +1,114 @@
+/**
+ * Loopback redirect login for native apps (RFC 8252)
+ */
+
+import { createServer, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { OAuth2Service } from '../core/OAuth2Service';
+import { CLIENT_ERROR_CODES, DEFAULT_LOOPBACK_TIMEOUT } from '../core/constants';
+import { TimeoutError } from '../core/errors';
+import type { TokenResponse } from '../core/types';
+
+export interface LoopbackLoginOptions {
+  /** Show the authorization URL to the user, e.g. open it in the system browser (default: print it) */
+  openUrl?: (url: string) => void | Promise<void>;
+  /** Path of the loopback redirect URI (default: '/callback') */
+  callbackPath?: string;
+  /** Seconds to wait for the redirect (default: 300) */
+  timeout?: number;
+  /** Page shown in the browser after a successful login */
+  successHtml?: string;
+  /** Page shown in the browser after a failed login */
+  failureHtml?: string;
+  /** Extra authorization request parameters */
+  additionalParams?: Record<string, string>;
+}
+
+const DEFAULT_SUCCESS_HTML = '<!DOCTYPE html><html><body><h1>Login complete</h1><p>You can close this window.</p></body></html>';
+
+const DEFAULT_FAILURE_HTML = '<!DOCTYPE html><html><body><h1>Login failed</h1><p>Return to the application and try again.</p></body></html>';
+
+function sendHtml(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': 'no-store',
+    // Let server.close() finish once the page is sent
+    Connection: 'close',
+  });
+  res.end(html);
+}
+
+/**
+ * Log in from a desktop or CLI app: listens on 127.0.0.1 with an ephemeral
+ * port, uses it as the redirect URI, and exchanges the code once the browser
+ * comes back. The listener always shuts down on completion or timeout.
+ */
+export async function loginWithLoopback(
+  service: OAuth2Service,
+  options: LoopbackLoginOptions = {}
+): Promise<TokenResponse> {
+  const {
+    openUrl = (url: string) => console.log(`Open this URL to log in:\n${url}`),
+    callbackPath = '/callback',
+    timeout = DEFAULT_LOOPBACK_TIMEOUT,
+    successHtml = DEFAULT_SUCCESS_HTML,
+    failureHtml = DEFAULT_FAILURE_HTML,
+    additionalParams,
+  } = options;
+
+  const server = createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    // The IP literal avoids localhost resolving to a different interface (RFC 8252, section 7.3)
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}${callbackPath}`;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const request = await service.createAuthorizationUrl({ ...additionalParams, redirect_uri: redirectUri });
+
+    return await new Promise<TokenResponse>((resolve, reject) => {
+      let settled = false;
+
+      timer = setTimeout(() => {
+        settled = true;
+        reject(new TimeoutError(CLIENT_ERROR_CODES.LOOPBACK_TIMEOUT, 'Timed out waiting for the login redirect'));
+      }, timeout * 1000);
+
+      server.on('request', async (req, res) => {
+        const url = new URL(req.url || '/', redirectUri);
+        if (settled || url.pathname !== callbackPath) {
+          res.writeHead(404, { Connection: 'close' }).end();
+          return;
+        }
+        settled = true;
+
+        try {
+          const tokens = await service.exchangeCode({
+            callbackUrl: url.href,
+            state: request.state,
+            codeVerifier: request.codeVerifier,
+            nonce: request.nonce,
+            redirectUri,
+          });
+          sendHtml(res, 200, successHtml);
+          resolve(tokens);
+        } catch (error) {
+          sendHtml(res, 400, failureHtml);
+          reject(error);
+        }
+      });
+
+      Promise.resolve(openUrl(request.url)).catch(error => {
+        settled = true;
+        reject(error);
+      });
+    });
+  } finally {
+    clearTimeout(timer);
+    server.close();
+    server.closeIdleConnections?.();
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Encrypted session cookie utilities
+ */
+
+import { CLIENT_ERROR_CODES } from '../core/constants';
+import { OAuth2ClientError } from '../core/errors';
+import { base64UrlDecode, base64UrlEncode } from '../utils/crypto';
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/** Minimum secret length, so the derived key has enough entropy */
+const MIN_SECRET_LENGTH = 32;
+
+/** Longest value per cookie; browsers silently drop cookies over 4096 bytes including the attributes */
+const MAX_COOKIE_VALUE_LENGTH = 3800;
+
+export interface CookieOptions {
+  maxAge?: number;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Derive the AES-GCM cookie key from a secret with HKDF
+ */
+function deriveKey(secret: string): Promise<CryptoKey> {
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw new OAuth2ClientError(
+      CLIENT_ERROR_CODES.CONFIGURATION_ERROR,
+      `Session secret must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = crypto.subtle
+      .importKey('raw', new TextEncoder().encode(secret), 'HKDF', false, ['deriveKey'])
+      .then(material => crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(0),
+          info: new TextEncoder().encode('oauth2-pkce-client session'),
+        },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      ));
+    keyCache.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt and authenticate session data for a cookie value
+ */
+export async function sealSession(data: Record<string, unknown>, secret: string, name: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(name) },
+    await deriveKey(secret),
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  return `${base64UrlEncode(iv.buffer)}.${base64UrlEncode(ciphertext)}`;
+}
+
+/**
+ * Decrypt a sealed cookie value; returns null for missing, tampered or foreign values
+ */
+export async function unsealSession(value: string | undefined, secret: string, name: string): Promise<Record<string, unknown> | null> {
+  const [iv, ciphertext] = value?.split('.') ?? [];
+  if (!iv || !ciphertext) {
+    return null;
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(base64UrlDecode(iv)),
+        additionalData: new TextEncoder().encode(name),
+      },
+      await deriveKey(secret),
+      new Uint8Array(base64UrlDecode(ciphertext))
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a cookie value; values that are not valid percent-encoding are kept as sent
+ */
+function decodeCookieValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a Cookie request header
+ */
+export function parseCookies(header: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  header?.split(';').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      const name = pair.slice(0, index).trim();
+      if (!(name in cookies)) {
+        cookies[name] = decodeCookieValue(pair.slice(index + 1).trim());
+      }
+    }
+  });
+
+  return cookies;
+}
+
+/**
+ * Read one cookie from a Cookie request header without decoding the others,
+ * which may belong to anything else on the domain; undefined when it is
+ * missing or not valid percent-encoding
+ */
+export function getCookie(header: string | null, name: string): string | undefined {
+  for (const pair of header?.split(';') ?? []) {
+    const index = pair.indexOf('=');
+    if (index > 0 && pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Serialize a Set-Cookie header value
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  const { path = '/', httpOnly = true, secure = true, sameSite = 'Lax', maxAge } = options;
+  const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${path}`, `SameSite=${sameSite}`];
+
+  if (maxAge !== undefined) {
+    parts.push(`Max-Age=${maxAge}`);
+  }
+  if (httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (secure) {
+    parts.push('Secure');
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Name of a chunk of a value split across cookies: the first keeps the plain name
+ */
+function chunkName(name: string, index: number): string {
+  return index === 0 ? name : `${name}.${index}`;
+}
+
+/**
+ * Read a value written by serializeChunkedCookie(), with the number of cookies it spans
+ */
+export function getChunkedCookie(header: string | null, name: string): { value: string | undefined; chunks: number } {
+  const parts: string[] = [];
+  for (let part = getCookie(header, name); part !== undefined; part = getCookie(header, chunkName(name, parts.length))) {
+    parts.push(part);
+  }
+
+  return { value: parts.length > 0 ? parts.join('') : undefined, chunks: parts.length };
+}
+
+/**
+ * Serialize Set-Cookie header values for a value split across as many cookies
+ * as browsers accept, expiring the chunks of a longer previous value. An empty
+ * value expires them all.
+ */
+export function serializeChunkedCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {},
+  previousChunks: number = 0
+): string[] {
+  const cookies: string[] = [];
+  let index = 0;
+
+  for (let offset = 0; offset < value.length; offset += MAX_COOKIE_VALUE_LENGTH, index++) {
+    cookies.push(serializeCookie(chunkName(name, index), value.slice(offset, offset + MAX_COOKIE_VALUE_LENGTH), options));
+  }
+
+  // Left in place, a stale chunk would be read as part of the new value
+  for (; index < Math.max(previousChunks, 1); index++) {
+    cookies.push(serializeCookie(chunkName(name, index), '', { ...options, maxAge: 0 }));
+  }
+
+  return cookies;
+}
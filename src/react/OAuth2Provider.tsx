@@ -5,6 +5,7 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { useOAuth2, UseOAuth2Return } from './useOAuth2';
 import type { OAuth2Config } from '../core/types';
+import type { OAuth2ClientError } from '../core/errors';
 
 const OAuth2Context = createContext<UseOAuth2Return | null>(null);
 
@@ -12,18 +13,19 @@ export interface OAuth2ProviderProps {
   config: OAuth2Config;
   children: ReactNode;
   loadingComponent?: ReactNode;
-  errorComponent?: (error: any) => ReactNode;
+  errorComponent?: (error: OAuth2ClientError) => ReactNode;
 }
 
 export function OAuth2Provider({ 
   config, 
   children, 
   loadingComponent = <div>Loading...</div>,
-  errorComponent = (error) => <div>Error: {error.error_description}</div>
+  errorComponent = (error) => <div>Error: {error.message}</div>
 }: OAuth2ProviderProps) {
   const auth = useOAuth2(config);
 
-  if (auth.isLoading) {
+  // Only the initial check; later refreshes and logins keep the app mounted
+  if (auth.isInitializing) {
     return <>{loadingComponent}</>;
   }
 
@@ -2,96 +2,49 @@
  * React hook for OAuth2 authentication
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
 import { OAuth2Service } from '../core/OAuth2Service';
+import { AuthActions, createAuthActions } from '../core/authActions';
+import type { OAuth2ClientError } from '../core/errors';
 import type { OAuth2Config, AuthState } from '../core/types';
 
-export interface UseOAuth2Return extends AuthState {
-  login: (additionalParams?: Record<string, string>) => Promise<void>;
-  logout: (redirectTo?: string) => void;
-  refresh: () => Promise<void>;
-  getToken: () => string | null;
-}
+export interface UseOAuth2Return extends AuthState, AuthActions {}
 
-export function useOAuth2(config: OAuth2Config): UseOAuth2Return {
-  const [state, setState] = useState<AuthState>({
-    isAuthenticated: false,
-    isLoading: true,
-    accessToken: null,
-    refreshToken: null,
-    idToken: null,
-    expiresAt: null,
-    scope: null,
-    error: null,
-  });
+const destroyedServices = new WeakSet<OAuth2Service>();
 
-  // Create OAuth2Service instance
-  const oauth = useMemo(() => {
-    const configWithCallbacks: OAuth2Config = {
-      ...config,
-      onAuthStateChange: (isAuthenticated) => {
-        setState(prev => ({
-          ...prev,
-          isAuthenticated,
-          isLoading: false,
-        }));
-      },
-      onTokenRefresh: () => {
-        setState(oauth.getAuthState());
-      },
-    };
-    return new OAuth2Service(configWithCallbacks);
-  }, [config]);
+export function useOAuth2(config: OAuth2Config): UseOAuth2Return {
+  // Created on the first render so it has state to show; the effect replaces it
+  // when the config changes or StrictMode's simulated unmount destroyed it
+  const [instance, setInstance] = useState(() => ({ config, service: new OAuth2Service(config) }));
+  const oauth = instance.service;
 
-  // Initialize state
   useEffect(() => {
-    setState({
-      ...oauth.getAuthState(),
-      isLoading: false,
-    });
-  }, [oauth]);
-
-  // Methods
-  const login = useCallback(async (additionalParams?: Record<string, string>) => {
-    setState(prev => ({ ...prev, isLoading: true, error: null }));
-    try {
-      await oauth.authorize(additionalParams);
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: { error: 'login_failed', error_description: (error as Error).message },
-      }));
+    if (instance.config !== config || destroyedServices.has(instance.service)) {
+      setInstance({ config, service: new OAuth2Service(config) });
+      return;
     }
-  }, [oauth]);
 
-  const logout = useCallback((redirectTo?: string) => {
-    oauth.logout(redirectTo);
-  }, [oauth]);
+    // Stop the service's timers and listeners once it is replaced or unmounted
+    return () => {
+      destroyedServices.add(instance.service);
+      instance.service.destroy();
+    };
+  }, [instance, config]);
 
-  const refresh = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true }));
-    try {
-      await oauth.refreshAccessToken();
-      setState(oauth.getAuthState());
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: { error: 'refresh_failed', error_description: (error as Error).message },
-      }));
-    }
-  }, [oauth]);
+  // The service keeps the state; components re-render when its snapshot changes
+  const subscribe = useCallback((onChange: () => void) => oauth.subscribe(onChange), [oauth]);
+  const getSnapshot = useCallback(() => oauth.getSnapshot(), [oauth]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
-  const getToken = useCallback(() => {
-    return oauth.getAccessToken();
-  }, [oauth]);
+  // Failures of refresh() called here; login failures are in the snapshot
+  const [refreshError, setRefreshError] = useState<OAuth2ClientError | null>(null);
+
+  // Methods
+  const actions = useMemo(() => createAuthActions(oauth, setRefreshError), [oauth]);
 
   return {
     ...state,
-    login,
-    logout,
-    refresh,
-    getToken,
+    error: state.error ?? refreshError,
+    ...actions,
   };
-}
\ No newline at end of file
+}
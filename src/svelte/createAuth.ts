@@ -0,0 +1,40 @@
+/**
+ * Svelte store for OAuth2 authentication
+ */
+
+import { derived, readable, writable } from 'svelte/store';
+import type { Readable } from 'svelte/store';
+import type { OAuth2Service } from '../core/OAuth2Service';
+import { AuthActions, createAuthActions, resolveService } from '../core/authActions';
+import type { OAuth2ClientError } from '../core/errors';
+import type { AuthState, OAuth2Config } from '../core/types';
+
+export interface OAuth2Store extends Readable<AuthState>, AuthActions {}
+
+/**
+ * Create a readable store of the authentication state with the actions
+ * attached, so components use $auth.isAuthenticated and auth.login(). Pass
+ * a config, or an existing service to keep a reference to it, e.g. for on().
+ */
+export function createAuth(configOrService: OAuth2Config | OAuth2Service): OAuth2Store {
+  const service = resolveService(configOrService);
+
+  const snapshot = readable(service.getSnapshot(), set => {
+    // Catch up on changes made while nothing was subscribed
+    set(service.getSnapshot());
+    return service.subscribe(set);
+  });
+
+  // Failures of refresh() called through the store; login failures are in the snapshot
+  const refreshError = writable<OAuth2ClientError | null>(null);
+
+  const { subscribe } = derived([snapshot, refreshError], ([state, error]) => ({
+    ...state,
+    error: state.error ?? error,
+  }));
+
+  return {
+    subscribe,
+    ...createAuthActions(service, error => refreshError.set(error)),
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * OAuth2 PKCE Client Svelte entry
+ *
+ * Readable auth store with login/logout actions over OAuth2Service
+ */
+
+export { createAuth } from './createAuth';
+export type { OAuth2Store } from './createAuth';
+export type { AuthActions } from '../core/authActions';
@@ -57,4 +57,18 @@ export async function generatePKCEParams(): Promise<{
  */
 export function validateState(received: string, stored: string): boolean {
   return received === stored && received.length > 0;
+}
+
+/**
+ * Base64 URL decode a string to bytes
+ */
+export function base64UrlDecode(input: string): ArrayBuffer {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
 }
\ No newline at end of file
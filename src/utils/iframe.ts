@@ -0,0 +1,74 @@
+/**
+ * Hidden iframe utilities for silent authentication
+ */
+
+import { CALLBACK_MESSAGE_TYPE, CLIENT_ERROR_CODES } from '../core/constants';
+import { TimeoutError } from '../core/errors';
+import type { CallbackMessage } from './popup';
+
+/**
+ * Load a URL in a hidden iframe and wait for the redirect page inside it
+ * to post back its callback URL
+ */
+export function loadInHiddenIframe(
+  url: string,
+  frameName: string,
+  expectedOrigin: string,
+  timeoutMs: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.name = frameName;
+    iframe.title = 'Silent authentication';
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.style.cssText = 'position:absolute;width:0;height:0;border:0;visibility:hidden';
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data as CallbackMessage | undefined;
+      if (
+        event.origin !== expectedOrigin ||
+        event.source !== iframe.contentWindow ||
+        data?.type !== CALLBACK_MESSAGE_TYPE
+      ) {
+        return;
+      }
+
+      cleanup();
+      resolve(data.url);
+    };
+
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new TimeoutError(CLIENT_ERROR_CODES.SILENT_RENEW_TIMEOUT, 'Silent authentication timed out'));
+    }, timeoutMs);
+
+    function cleanup() {
+      window.removeEventListener('message', onMessage);
+      clearTimeout(timeout);
+      iframe.remove();
+    }
+
+    window.addEventListener('message', onMessage);
+    document.body.appendChild(iframe);
+    iframe.src = url;
+  });
+}
+
+/**
+ * When running in a silent authentication iframe created by this library,
+ * hand the callback URL to the parent. Returns true if the callback was delegated.
+ */
+export function notifyParent(frameName: string): boolean {
+  if (window.parent === window || window.name !== frameName) {
+    return false;
+  }
+
+  const message: CallbackMessage = {
+    type: CALLBACK_MESSAGE_TYPE,
+    url: window.location.href,
+  };
+
+  // Only deliver to a same-origin parent
+  window.parent.postMessage(message, window.location.origin);
+  return true;
+}
@@ -0,0 +1,146 @@
+/**
+ * JSON Web Token utilities
+ */
+
+import { base64UrlDecode, base64UrlEncode } from './crypto';
+
+/**
+ * Supported JWS algorithms and their WebCrypto parameters
+ */
+export const JWS_ALGORITHMS = {
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    signParams: { name: 'RSASSA-PKCS1-v1_5' },
+    kty: 'RSA',
+  },
+  PS256: {
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    signParams: { name: 'RSA-PSS', saltLength: 32 },
+    kty: 'RSA',
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' },
+    kty: 'EC',
+  },
+} as const;
+
+export type JwsAlgorithm = keyof typeof JWS_ALGORITHMS;
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [key: string]: unknown;
+}
+
+export interface DecodedJwt<T = Record<string, unknown>> {
+  header: JwtHeader;
+  payload: T;
+  signingInput: string;
+  signature: ArrayBuffer;
+}
+
+/**
+ * Check whether an algorithm name is a supported JWS algorithm
+ */
+export function isSupportedAlgorithm(alg: string): alg is JwsAlgorithm {
+  return Object.prototype.hasOwnProperty.call(JWS_ALGORITHMS, alg);
+}
+
+/**
+ * Decode a compact JWS without verifying it
+ */
+export function decodeJwt<T = Record<string, unknown>>(token: string): DecodedJwt<T> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const decoder = new TextDecoder();
+
+  return {
+    header: JSON.parse(decoder.decode(base64UrlDecode(encodedHeader))),
+    payload: JSON.parse(decoder.decode(base64UrlDecode(encodedPayload))),
+    signingInput: `${encodedHeader}.${encodedPayload}`,
+    signature: base64UrlDecode(encodedSignature),
+  };
+}
+
+/**
+ * Import a public JWK for signature verification
+ */
+export async function importVerificationKey(jwk: JsonWebKey, alg: JwsAlgorithm): Promise<CryptoKey> {
+  // Only pass the key material, so stray alg/key_ops members cannot make the import fail
+  const material: JsonWebKey = jwk.kty === 'EC'
+    ? { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y }
+    : { kty: jwk.kty, n: jwk.n, e: jwk.e };
+
+  return crypto.subtle.importKey('jwk', material, JWS_ALGORITHMS[alg].importParams, false, ['verify']);
+}
+
+/**
+ * Verify the signature of a decoded JWT
+ */
+export async function verifyJwtSignature(jwt: DecodedJwt<unknown>, key: CryptoKey, alg: JwsAlgorithm): Promise<boolean> {
+  return crypto.subtle.verify(
+    JWS_ALGORITHMS[alg].signParams,
+    key,
+    new Uint8Array(jwt.signature),
+    new TextEncoder().encode(jwt.signingInput)
+  );
+}
+
+/**
+ * Import a private JWK for signing
+ */
+export async function importSigningKey(jwk: JsonWebKey, alg: JwsAlgorithm): Promise<CryptoKey> {
+  const material: JsonWebKey = jwk.kty === 'EC'
+    ? { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, d: jwk.d }
+    : { kty: jwk.kty, n: jwk.n, e: jwk.e, d: jwk.d, p: jwk.p, q: jwk.q, dp: jwk.dp, dq: jwk.dq, qi: jwk.qi };
+
+  return crypto.subtle.importKey('jwk', material, JWS_ALGORITHMS[alg].importParams, false, ['sign']);
+}
+
+const importedSigningKeys = new WeakMap<JsonWebKey, Promise<CryptoKey>>();
+
+/**
+ * Use a CryptoKey as is, or import a private JWK once and reuse it
+ */
+export function resolveSigningKey(key: CryptoKey | JsonWebKey, alg: JwsAlgorithm): Promise<CryptoKey> {
+  // JWKs have no usages member; checked structurally since CryptoKey is not global everywhere
+  if ('usages' in key) {
+    return Promise.resolve(key);
+  }
+
+  let imported = importedSigningKeys.get(key);
+  if (!imported) {
+    imported = importSigningKey(key, alg);
+    importedSigningKeys.set(key, imported);
+  }
+  return imported;
+}
+
+function encodeSegment(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)).buffer);
+}
+
+/**
+ * Sign a payload as a compact JWS
+ */
+export async function signJwt(
+  payload: Record<string, unknown>,
+  key: CryptoKey,
+  alg: JwsAlgorithm,
+  header: Omit<JwtHeader, 'alg'> = {}
+): Promise<string> {
+  const signingInput = `${encodeSegment({ ...header, alg })}.${encodeSegment(payload)}`;
+  const signature = await crypto.subtle.sign(
+    JWS_ALGORITHMS[alg].signParams,
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
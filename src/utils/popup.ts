@@ -0,0 +1,88 @@
+/**
+ * Popup window utilities for the OAuth2 flow
+ */
+
+import { CALLBACK_MESSAGE_TYPE, CLIENT_ERROR_CODES } from '../core/constants';
+import { OAuth2ClientError, TimeoutError } from '../core/errors';
+
+/**
+ * Message posted from the redirect page to the window that started the flow
+ */
+export interface CallbackMessage {
+  type: typeof CALLBACK_MESSAGE_TYPE;
+  url: string;
+}
+
+/**
+ * Open a centered popup window. Must be called synchronously from a user
+ * gesture, otherwise browsers will block it.
+ */
+export function openPopup(name: string, width: number, height: number): Window | null {
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+  const features = `width=${width},height=${height},left=${left},top=${top},popup=yes`;
+  return window.open('', name, features);
+}
+
+/**
+ * Wait for the redirect page in the popup to post back its callback URL
+ */
+export function waitForPopupCallback(popup: Window, expectedOrigin: string, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const fail = (error: OAuth2ClientError) => {
+      cleanup();
+      reject(error);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data as CallbackMessage | undefined;
+      if (event.origin !== expectedOrigin || event.source !== popup || data?.type !== CALLBACK_MESSAGE_TYPE) {
+        return;
+      }
+
+      cleanup();
+      popup.close();
+      resolve(data.url);
+    };
+
+    const closedPoll = setInterval(() => {
+      if (popup.closed) {
+        fail(new OAuth2ClientError(CLIENT_ERROR_CODES.POPUP_CLOSED, 'The login popup was closed before completing'));
+      }
+    }, 500);
+
+    const timeout = setTimeout(() => {
+      popup.close();
+      fail(new TimeoutError(CLIENT_ERROR_CODES.POPUP_TIMEOUT, 'The login popup timed out'));
+    }, timeoutMs);
+
+    function cleanup() {
+      window.removeEventListener('message', onMessage);
+      clearInterval(closedPoll);
+      clearTimeout(timeout);
+    }
+
+    window.addEventListener('message', onMessage);
+  });
+}
+
+/**
+ * When running in a popup opened by this library, hand the callback URL to
+ * the opener and close. Returns true if the callback was delegated.
+ */
+export function notifyOpener(popupName: string): boolean {
+  const opener = window.opener as Window | null;
+  if (!opener || opener === window || window.name !== popupName) {
+    return false;
+  }
+
+  const message: CallbackMessage = {
+    type: CALLBACK_MESSAGE_TYPE,
+    url: window.location.href,
+  };
+
+  // Only deliver to a same-origin opener
+  opener.postMessage(message, window.location.origin);
+  window.close();
+  return true;
+}
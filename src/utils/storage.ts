@@ -2,86 +2,167 @@
  * Storage utilities for token management
  */
 
-import { STORAGE_KEYS } from '../core/constants';
+import { CLIENT_ERROR_CODES, STORAGE_KEYS } from '../core/constants';
+import type { CryptoKeyStore, TokenStore, UserClaims } from '../core/types';
+import { OAuth2ClientError } from '../core/errors';
+import { EncryptedTokenStore, isWebStorage, MemoryTokenStore, WebStorageTokenStore } from './stores';
+
+export interface TokenStorageOptions {
+  /** Encrypt values with a key kept in this key store */
+  encryptionKeyStore?: CryptoKeyStore;
+  /** Called when a stored value fails to decrypt, after all values are cleared */
+  onDecryptionError?: (error: OAuth2ClientError) => void;
+}
 
 export class TokenStorage {
-  private storage: Storage;
+  private store: TokenStore;
   private prefix: string;
-
-  constructor(storage: Storage = localStorage, prefix: string = 'oauth2_') {
-    this.storage = storage;
+  private onDecryptionError?: (error: OAuth2ClientError) => void;
+
+  constructor(
+    storage: Storage | TokenStore = typeof localStorage !== 'undefined' ? localStorage : new MemoryTokenStore(),
+    prefix: string = 'oauth2_',
+    options: TokenStorageOptions = {}
+  ) {
+    this.store = isWebStorage(storage) ? new WebStorageTokenStore(storage) : storage;
     this.prefix = prefix;
+    this.onDecryptionError = options.onDecryptionError;
+
+    if (options.encryptionKeyStore) {
+      this.store = new EncryptedTokenStore(
+        this.store,
+        options.encryptionKeyStore,
+        this.getKey('token_key'),
+        Object.values(STORAGE_KEYS).map(key => this.getKey(key))
+      );
+    }
   }
 
   private getKey(key: string): string {
     return `${this.prefix}${key}`;
   }
 
-  setAccessToken(token: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.ACCESS_TOKEN), token);
+  /**
+   * Read a value; a tampered or corrupted one clears everything, since the
+   * remaining values can no longer be trusted as a consistent session
+   */
+  private async getItem(key: string): Promise<string | null> {
+    try {
+      return await this.store.getItem(this.getKey(key));
+    } catch (error) {
+      if (!(error instanceof OAuth2ClientError) || error.code !== CLIENT_ERROR_CODES.TOKEN_DECRYPTION_FAILED) {
+        throw error;
+      }
+
+      await this.clear();
+      this.onDecryptionError?.(error);
+      return null;
+    }
+  }
+
+  async setAccessToken(token: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.ACCESS_TOKEN), token);
   }
 
-  getAccessToken(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.ACCESS_TOKEN));
+  async getAccessToken(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.ACCESS_TOKEN);
   }
 
-  setRefreshToken(token: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.REFRESH_TOKEN), token);
+  async setTokenType(tokenType: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.TOKEN_TYPE), tokenType);
   }
 
-  getRefreshToken(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.REFRESH_TOKEN));
+  async getTokenType(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.TOKEN_TYPE);
   }
 
-  setIdToken(token: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.ID_TOKEN), token);
+  async setRefreshToken(token: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.REFRESH_TOKEN), token);
   }
 
-  getIdToken(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.ID_TOKEN));
+  async getRefreshToken(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.REFRESH_TOKEN);
   }
 
-  setExpiresAt(expiresAt: number): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.EXPIRES_AT), expiresAt.toString());
+  async setIdToken(token: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.ID_TOKEN), token);
   }
 
-  getExpiresAt(): number | null {
-    const value = this.storage.getItem(this.getKey(STORAGE_KEYS.EXPIRES_AT));
+  async getIdToken(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.ID_TOKEN);
+  }
+
+  async setExpiresAt(expiresAt: number): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.EXPIRES_AT), expiresAt.toString());
+  }
+
+  async getExpiresAt(): Promise<number | null> {
+    const value = await this.getItem(STORAGE_KEYS.EXPIRES_AT);
     return value ? parseInt(value, 10) : null;
   }
 
-  setScope(scope: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.SCOPE), scope);
+  async setScope(scope: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.SCOPE), scope);
+  }
+
+  async getScope(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.SCOPE);
+  }
+
+  async setUserInfo(userInfo: UserClaims): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.USER_INFO), JSON.stringify(userInfo));
+  }
+
+  async getUserInfo(): Promise<UserClaims | null> {
+    const value = await this.getItem(STORAGE_KEYS.USER_INFO);
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  async removeUserInfo(): Promise<void> {
+    await this.store.removeItem(this.getKey(STORAGE_KEYS.USER_INFO));
+  }
+
+  async setCodeVerifier(verifier: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.CODE_VERIFIER), verifier);
   }
 
-  getScope(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.SCOPE));
+  async getCodeVerifier(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.CODE_VERIFIER);
   }
 
-  setCodeVerifier(verifier: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.CODE_VERIFIER), verifier);
+  async setState(state: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.STATE), state);
   }
 
-  getCodeVerifier(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.CODE_VERIFIER));
+  async getState(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.STATE);
   }
 
-  setState(state: string): void {
-    this.storage.setItem(this.getKey(STORAGE_KEYS.STATE), state);
+  async setNonce(nonce: string): Promise<void> {
+    await this.store.setItem(this.getKey(STORAGE_KEYS.NONCE), nonce);
   }
 
-  getState(): string | null {
-    return this.storage.getItem(this.getKey(STORAGE_KEYS.STATE));
+  async getNonce(): Promise<string | null> {
+    return this.getItem(STORAGE_KEYS.NONCE);
   }
 
-  clear(): void {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      this.storage.removeItem(this.getKey(key));
-    });
+  async clear(): Promise<void> {
+    await Promise.all(Object.values(STORAGE_KEYS).map(key => this.store.removeItem(this.getKey(key))));
   }
 
-  clearTemporary(): void {
-    this.storage.removeItem(this.getKey(STORAGE_KEYS.CODE_VERIFIER));
-    this.storage.removeItem(this.getKey(STORAGE_KEYS.STATE));
+  async clearTemporary(): Promise<void> {
+    await Promise.all([
+      this.store.removeItem(this.getKey(STORAGE_KEYS.CODE_VERIFIER)),
+      this.store.removeItem(this.getKey(STORAGE_KEYS.STATE)),
+      this.store.removeItem(this.getKey(STORAGE_KEYS.NONCE)),
+    ]);
   }
 }
\ No newline at end of file
@@ -0,0 +1,312 @@
+/**
+ * Token store adapters
+ */
+
+import { CLIENT_ERROR_CODES } from '../core/constants';
+import type { CryptoKeyStore, TokenStore } from '../core/types';
+import { OAuth2ClientError } from '../core/errors';
+import { base64UrlDecode, base64UrlEncode } from './crypto';
+
+/**
+ * Check whether a value is a synchronous DOM Storage rather than a TokenStore
+ */
+export function isWebStorage(storage: Storage | TokenStore): storage is Storage {
+  return typeof (storage as Storage).key === 'function' && typeof (storage as Storage).length === 'number';
+}
+
+/**
+ * Keeps tokens (and keys) in memory only; they are gone when the page or worker unloads
+ */
+export class MemoryTokenStore implements TokenStore, CryptoKeyStore {
+  private items = new Map<string, string>();
+  private keys = new Map<string, CryptoKey>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getKey(name: string): Promise<CryptoKey | null> {
+    return this.keys.get(name) ?? null;
+  }
+
+  async setKey(name: string, key: CryptoKey): Promise<void> {
+    this.keys.set(name, key);
+  }
+
+  async removeKey(name: string): Promise<void> {
+    this.keys.delete(name);
+  }
+}
+
+/**
+ * Adapts a DOM Storage (localStorage, sessionStorage) to the TokenStore interface
+ */
+export class WebStorageTokenStore implements TokenStore {
+  constructor(readonly storage: Storage) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Keeps tokens in sessionStorage, scoped to the current tab
+ */
+export class SessionStorageTokenStore extends WebStorageTokenStore {
+  constructor() {
+    super(sessionStorage);
+  }
+}
+
+/**
+ * Keeps tokens in localStorage, shared by all tabs of the origin
+ */
+export class LocalStorageTokenStore extends WebStorageTokenStore {
+  constructor() {
+    super(localStorage);
+  }
+}
+
+/**
+ * Keeps tokens in a server-side session object, such as express-session's
+ * req.session, so a server can hold tokens per user instead of per process
+ */
+export class SessionTokenStore implements TokenStore {
+  constructor(private readonly session: Record<string, unknown>) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = this.session[key];
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.session[key] = value;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    delete this.session[key];
+  }
+}
+
+const TOKEN_OBJECT_STORE = 'tokens';
+const KEY_OBJECT_STORE = 'keys';
+
+/**
+ * Keeps tokens in IndexedDB, which is also available in Web Workers. Its
+ * CryptoKeyStore side persists non-extractable WebCrypto keys, which cannot
+ * be serialized to string-based stores.
+ */
+export class IndexedDBTokenStore implements TokenStore, CryptoKeyStore {
+  private database?: Promise<IDBDatabase>;
+
+  constructor(private readonly databaseName: string = 'oauth2-pkce-client') {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<string | undefined>(TOKEN_OBJECT_STORE, 'readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request(TOKEN_OBJECT_STORE, 'readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request(TOKEN_OBJECT_STORE, 'readwrite', store => store.delete(key));
+  }
+
+  async getKey(name: string): Promise<CryptoKey | null> {
+    const key = await this.request<CryptoKey | undefined>(KEY_OBJECT_STORE, 'readonly', store => store.get(name));
+    return key ?? null;
+  }
+
+  async setKey(name: string, key: CryptoKey): Promise<void> {
+    await this.request(KEY_OBJECT_STORE, 'readwrite', store => store.put(key, name));
+  }
+
+  async removeKey(name: string): Promise<void> {
+    await this.request(KEY_OBJECT_STORE, 'readwrite', store => store.delete(name));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(TOKEN_OBJECT_STORE);
+          request.result.createObjectStore(KEY_OBJECT_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  private async request<T>(
+    objectStore: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(objectStore, mode);
+      const request = operation(transaction.objectStore(objectStore));
+      // A write is only durable once its transaction commits, not when the request succeeds
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? request.error);
+    });
+  }
+}
+
+/** Marks values sealed by EncryptedTokenStore, with the format version */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/**
+ * Seals values with AES-GCM before handing them to another store. The key is
+ * non-extractable and kept in a CryptoKeyStore, so script can use it but never
+ * read it out. Plaintext values under legacyKeys are sealed once, when the key
+ * is first created; afterwards unsealed values count as tampered, like values
+ * that fail to decrypt, and are removed and rejected with a
+ * token_decryption_failed error.
+ */
+export class EncryptedTokenStore implements TokenStore {
+  private key?: Promise<CryptoKey>;
+
+  constructor(
+    private readonly store: TokenStore,
+    private readonly keyStore: CryptoKeyStore,
+    private readonly keyName: string = 'oauth2_token_key',
+    private readonly legacyKeys: string[] = []
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    // Any migration finishes before values are judged
+    const cryptoKey = await this.getKey();
+
+    const value = await this.store.getItem(key);
+    if (value === null) {
+      return null;
+    }
+
+    try {
+      if (!value.startsWith(ENCRYPTED_PREFIX)) {
+        throw new Error('Unsealed value');
+      }
+      return await this.decrypt(key, value.slice(ENCRYPTED_PREFIX.length), cryptoKey);
+    } catch {
+      await this.store.removeItem(key);
+      throw new OAuth2ClientError(
+        CLIENT_ERROR_CODES.TOKEN_DECRYPTION_FAILED,
+        `Stored value for ${key} could not be decrypted`
+      );
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.seal(key, value, await this.getKey());
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.store.removeItem(key);
+  }
+
+  private async seal(key: string, value: string, cryptoKey: CryptoKey): Promise<void> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      // Binding the entry name stops a sealed value being replayed under another key
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(key) },
+      cryptoKey,
+      new TextEncoder().encode(value)
+    );
+
+    await this.store.setItem(
+      key,
+      `${ENCRYPTED_PREFIX}${base64UrlEncode(iv.buffer)}.${base64UrlEncode(ciphertext)}`
+    );
+  }
+
+  private async decrypt(key: string, sealed: string, cryptoKey: CryptoKey): Promise<string> {
+    const [iv, ciphertext] = sealed.split('.');
+    if (!iv || !ciphertext) {
+      throw new Error('Malformed encrypted value');
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: new Uint8Array(base64UrlDecode(iv)),
+        additionalData: new TextEncoder().encode(key),
+      },
+      cryptoKey,
+      new Uint8Array(base64UrlDecode(ciphertext))
+    );
+
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * Seal the plaintext values written before encryption was enabled
+   */
+  private async migrate(cryptoKey: CryptoKey): Promise<void> {
+    for (const key of this.legacyKeys) {
+      const value = await this.store.getItem(key);
+      if (value !== null && !value.startsWith(ENCRYPTED_PREFIX)) {
+        await this.seal(key, value, cryptoKey);
+      }
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      this.key = getOrCreateKey(this.keyStore, this.keyName, async () => {
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        // Only a new key means encryption was just enabled
+        await this.migrate(key);
+        return key;
+      });
+      // Let a failed lookup be retried
+      this.key.catch(() => {
+        this.key = undefined;
+      });
+    }
+    return this.key;
+  }
+}
+
+/**
+ * Load a key from a key store, generating and persisting it on first use
+ */
+export async function getOrCreateKey(
+  keyStore: CryptoKeyStore,
+  name: string,
+  generate: () => Promise<CryptoKey>
+): Promise<CryptoKey> {
+  const existing = await keyStore.getKey(name);
+  if (existing) {
+    return existing;
+  }
+
+  const key = await generate();
+  await keyStore.setKey(name, key);
+  return key;
+}
@@ -0,0 +1,9 @@
+/**
+ * OAuth2 PKCE Client Vue entry
+ *
+ * Vue 3 plugin and useAuth() composable over OAuth2Service
+ */
+
+export { createOAuth2, useAuth } from './plugin';
+export type { AuthStateRefs, UseAuthReturn } from './plugin';
+export type { AuthActions } from '../core/authActions';
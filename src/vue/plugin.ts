@@ -0,0 +1,67 @@
+/**
+ * Vue plugin and composable for OAuth2 authentication
+ */
+
+import { computed, inject, shallowRef } from 'vue';
+import type { ComputedRef, InjectionKey, Plugin } from 'vue';
+import type { OAuth2Service } from '../core/OAuth2Service';
+import { AuthActions, createAuthActions, resolveService } from '../core/authActions';
+import type { OAuth2ClientError } from '../core/errors';
+import type { AuthState, OAuth2Config } from '../core/types';
+
+/**
+ * Each AuthState field as a read-only ref
+ */
+export type AuthStateRefs = { readonly [K in keyof AuthState]: ComputedRef<AuthState[K]> };
+
+export interface UseAuthReturn extends AuthStateRefs, AuthActions {}
+
+const OAUTH2_KEY: InjectionKey<UseAuthReturn> = Symbol('oauth2');
+
+function createAuthBindings(service: OAuth2Service): UseAuthReturn {
+  const state = shallowRef(service.getSnapshot());
+  // Lives as long as the app, like the service
+  service.subscribe(snapshot => {
+    state.value = snapshot;
+  });
+
+  // Failures of refresh() called through the composable; login failures are in the snapshot
+  const refreshError = shallowRef<OAuth2ClientError | null>(null);
+  const field = <K extends keyof AuthState>(key: K) => computed(() => state.value[key]);
+
+  return {
+    isAuthenticated: field('isAuthenticated'),
+    isInitializing: field('isInitializing'),
+    isLoading: field('isLoading'),
+    accessToken: field('accessToken'),
+    refreshToken: field('refreshToken'),
+    idToken: field('idToken'),
+    expiresAt: field('expiresAt'),
+    scope: field('scope'),
+    user: field('user'),
+    error: computed(() => state.value.error ?? refreshError.value),
+    ...createAuthActions(service, error => {
+      refreshError.value = error;
+    }),
+  };
+}
+
+/**
+ * Create a plugin that provides authentication to useAuth(). Pass a config,
+ * or an existing service to keep a reference to it, e.g. for on().
+ */
+export function createOAuth2(configOrService: OAuth2Config | OAuth2Service): Plugin {
+  return {
+    install(app) {
+      app.provide(OAUTH2_KEY, createAuthBindings(resolveService(configOrService)));
+    },
+  };
+}
+
+export function useAuth(): UseAuthReturn {
+  const auth = inject(OAUTH2_KEY, null);
+  if (!auth) {
+    throw new Error('useAuth must be used within an app that installed createOAuth2()');
+  }
+  return auth;
+}
@@ -0,0 +1,119 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ClientCredentialsClient } from '../src/core/ClientCredentialsClient';
+import { TOKEN_TYPE } from '../src/core/constants';
+import { ProviderError } from '../src/core/errors';
+
+const tokenEndpoint = 'https://auth.example.com/token';
+
+function lastRequest() {
+  const [, init] = vi.mocked(global.fetch).mock.lastCall!;
+  return { headers: new Headers(init!.headers), body: new URLSearchParams(init!.body as string) };
+}
+
+describe('ClientCredentialsClient', () => {
+  let issued: number;
+
+  beforeEach(() => {
+    issued = 0;
+    global.fetch = vi.fn(async () => {
+      issued++;
+      return new Response(JSON.stringify({ access_token: `service-token-${issued}`, token_type: 'Bearer', expires_in: 3600 }));
+    }) as typeof fetch;
+  });
+
+  it('should authenticate with client_secret_basic by default', async () => {
+    const client = new ClientCredentialsClient({ clientId: 'my client', clientSecret: 's3cret:+', tokenEndpoint });
+
+    await expect(client.getAccessToken({ scope: 'read' })).resolves.toBe('service-token-1');
+
+    const { headers, body } = lastRequest();
+    expect(headers.get('Authorization')).toBe(`Basic ${btoa('my+client:s3cret%3A%2B')}`);
+    expect(body.get('grant_type')).toBe('client_credentials');
+    expect(body.get('scope')).toBe('read');
+    expect(body.has('client_id')).toBe(false);
+    expect(body.has('client_secret')).toBe(false);
+  });
+
+  it('should send credentials in the body with client_secret_post', async () => {
+    const client = new ClientCredentialsClient({
+      clientId: 'service-client',
+      clientSecret: 'secret',
+      tokenEndpoint,
+      tokenEndpointAuthMethod: 'client_secret_post',
+    });
+
+    await client.getAccessToken();
+
+    const { headers, body } = lastRequest();
+    expect(headers.has('Authorization')).toBe(false);
+    expect(body.get('client_id')).toBe('service-client');
+    expect(body.get('client_secret')).toBe('secret');
+  });
+
+  it('should cache tokens per scope and audience', async () => {
+    const client = new ClientCredentialsClient({ clientId: 'service-client', clientSecret: 'secret', tokenEndpoint });
+
+    const [first, concurrent] = await Promise.all([
+      client.getAccessToken({ scope: 'read' }),
+      client.getAccessToken({ scope: 'read' }),
+    ]);
+    const cached = await client.getAccessToken({ scope: 'read' });
+    const otherAudience = await client.getAccessToken({ scope: 'read', audience: 'https://billing.example.com' });
+
+    expect([first, concurrent, cached]).toEqual(['service-token-1', 'service-token-1', 'service-token-1']);
+    expect(otherAudience).toBe('service-token-2');
+    expect(lastRequest().body.get('audience')).toBe('https://billing.example.com');
+
+    // Not the same key just because the parts join to the same string
+    expect(await client.getAccessToken({ scope: 'a', audience: 'b c' })).toBe('service-token-3');
+    expect(await client.getAccessToken({ scope: 'a b', audience: 'c' })).toBe('service-token-4');
+  });
+
+  it('should replace tokens that are about to expire', async () => {
+    vi.useFakeTimers();
+    const client = new ClientCredentialsClient({ clientId: 'service-client', clientSecret: 'secret', tokenEndpoint });
+
+    await client.getAccessToken();
+    vi.advanceTimersByTime((3600 - 60) * 1000);
+    const renewed = await client.getAccessToken();
+    vi.useRealTimers();
+
+    expect(renewed).toBe('service-token-2');
+  });
+
+  it('should exchange a token', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      access_token: 'downscoped-token',
+      issued_token_type: TOKEN_TYPE.ACCESS_TOKEN,
+      token_type: 'Bearer',
+    })));
+    const client = new ClientCredentialsClient({ clientId: 'gateway', clientSecret: 'secret', tokenEndpoint });
+
+    const response = await client.exchangeToken({
+      subject_token: 'user-token',
+      subject_token_type: TOKEN_TYPE.ACCESS_TOKEN,
+      actor_token: 'gateway-token',
+      actor_token_type: TOKEN_TYPE.ACCESS_TOKEN,
+      audience: 'orders-service',
+      scope: 'orders:read',
+    });
+
+    const { body } = lastRequest();
+    expect(response.access_token).toBe('downscoped-token');
+    expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:token-exchange');
+    expect(body.get('subject_token')).toBe('user-token');
+    expect(body.get('actor_token')).toBe('gateway-token');
+    expect(body.get('audience')).toBe('orders-service');
+    expect(body.has('requested_token_type')).toBe(false);
+  });
+
+  it('should reject token endpoint errors', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'invalid_client' }), { status: 401 }));
+    const client = new ClientCredentialsClient({ clientId: 'service-client', clientSecret: 'wrong', tokenEndpoint });
+
+    const error = await client.getAccessToken().catch(e => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ error: 'invalid_client', status: 401 });
+  });
+});
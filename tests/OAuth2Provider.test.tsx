@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { useState } from 'react';
+import { OAuth2Provider, useAuth } from '../src/react/OAuth2Provider';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('OAuth2Provider', () => {
+  const config: OAuth2Config = {
+    clientId: 'test-client-id',
+    authorizationEndpoint: 'https://auth.example.com/authorize',
+    tokenEndpoint: 'https://auth.example.com/token',
+    redirectUri: 'http://localhost:3000/callback',
+    autoRefresh: false,
+  };
+
+  let auth!: ReturnType<typeof useAuth>;
+
+  function Counter() {
+    auth = useAuth();
+    const [count, setCount] = useState(0);
+    return <button onClick={() => setCount(count + 1)}>Clicked {count}</button>;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep its children mounted while a refresh is in flight', async () => {
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    render(
+      <OAuth2Provider config={config} loadingComponent={<p>Loading</p>}>
+        <Counter />
+      </OAuth2Provider>
+    );
+    expect(screen.getByText('Loading')).toBeTruthy();
+
+    const button = await screen.findByText('Clicked 0');
+    act(() => button.click());
+    expect(screen.getByText('Clicked 1')).toBeTruthy();
+
+    let respond!: (response: Response) => void;
+    global.fetch = vi.fn().mockReturnValue(new Promise(resolve => {
+      respond = resolve;
+    }));
+    let refresh!: Promise<unknown>;
+    act(() => {
+      refresh = auth.refresh();
+    });
+
+    expect(auth.isLoading).toBe(true);
+    expect(screen.queryByText('Loading')).toBeNull();
+    expect(screen.getByText('Clicked 1')).toBeTruthy();
+
+    await act(() => {
+      respond(new Response(JSON.stringify({ access_token: 'new-access-token', expires_in: 3600 })));
+      return refresh;
+    });
+
+    expect(auth.accessToken).toBe('new-access-token');
+    expect(screen.getByText('Clicked 1')).toBeTruthy();
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OAuth2Service } from '../src/core/OAuth2Service';
 import type { OAuth2Config } from '../src/core/types';
+import { decodeJwt } from '../src/utils/jwt';
+import { InvalidResponseError, ProviderError, StateMismatchError } from '../src/core/errors';
 
 describe('OAuth2Service', () => {
   let service: OAuth2Service;
@@ -23,9 +25,9 @@ describe('OAuth2Service', () => {
   });
 
   describe('constructor', () => {
-    it('should initialize with provided config', () => {
+    it('should initialize with provided config', async () => {
       expect(service).toBeDefined();
-      expect(service.isAuthenticated()).toBe(false);
+      expect(await service.isAuthenticated()).toBe(false);
     });
   });
 
@@ -67,8 +69,8 @@ describe('OAuth2Service', () => {
       
       await service.handleCallback(mockUrl);
 
-      expect(service.isAuthenticated()).toBe(true);
-      expect(service.getAccessToken()).toBe('test-access-token');
+      expect(await service.isAuthenticated()).toBe(true);
+      expect(await service.getAccessToken()).toBe('test-access-token');
     });
 
     it('should handle error callback', async () => {
@@ -76,6 +78,308 @@ describe('OAuth2Service', () => {
       
       await expect(service.handleCallback(mockUrl)).rejects.toThrow();
     });
+
+    it('should reject with typed errors and report them to the logger', async () => {
+      const logger = { debug: vi.fn(), error: vi.fn() };
+      service = new OAuth2Service({ ...config, logger });
+      localStorage.setItem('oauth2_state', 'test-state');
+
+      const denied = await service
+        .handleCallback('http://localhost:3000/callback?error=access_denied&error_description=User+denied+access')
+        .catch(e => e);
+      const mismatch = await service
+        .handleCallback('http://localhost:3000/callback?code=test-code&state=other-state')
+        .catch(e => e);
+
+      expect(denied).toBeInstanceOf(ProviderError);
+      expect(denied).toMatchObject({ code: 'access_denied', error_description: 'User denied access' });
+      expect(mismatch).toBeInstanceOf(StateMismatchError);
+      expect(mismatch.code).toBe('state_mismatch');
+      expect(logger.error).toHaveBeenCalledWith('OAuth2 Error:', denied);
+      expect(logger.error).toHaveBeenCalledWith('OAuth2 Error:', mismatch);
+      expect(logger.debug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('nonce', () => {
+    const idTokenWithNonce = (nonce: string) =>
+      ['{"alg":"none"}', JSON.stringify({ sub: 'user-123', nonce }), '']
+        .map(part => btoa(part).replace(/=/g, ''))
+        .join('.');
+
+    beforeEach(() => {
+      service = new OAuth2Service({ ...config, useNonce: true });
+    });
+
+    it('should send and store a nonce when enabled', async () => {
+      const mockLocation = { href: '' };
+      Object.defineProperty(window, 'location', {
+        value: mockLocation,
+        writable: true,
+      });
+
+      await service.authorize();
+
+      const nonce = localStorage.getItem('oauth2_nonce');
+      expect(nonce).toBeTruthy();
+      expect(new URL(mockLocation.href).searchParams.get('nonce')).toBe(nonce);
+    });
+
+    it('should accept a matching nonce and clear it', async () => {
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      localStorage.setItem('oauth2_nonce', 'test-nonce');
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          access_token: 'test-access-token',
+          id_token: idTokenWithNonce('test-nonce'),
+          expires_in: 3600,
+        }),
+      });
+
+      await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+
+      expect(await service.isAuthenticated()).toBe(true);
+      expect(localStorage.getItem('oauth2_nonce')).toBeNull();
+    });
+
+    it('should report an ID token accepted without a jwksUri', async () => {
+      const logger = { debug: vi.fn(), error: vi.fn() };
+      service = new OAuth2Service({ ...config, useNonce: true, logger });
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      localStorage.setItem('oauth2_nonce', 'test-nonce');
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          access_token: 'test-access-token',
+          id_token: idTokenWithNonce('test-nonce'),
+          expires_in: 3600,
+        }),
+      });
+
+      await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('without signature verification'));
+    });
+
+    it('should reject a replayed ID token with another nonce', async () => {
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      localStorage.setItem('oauth2_nonce', 'test-nonce');
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          access_token: 'test-access-token',
+          id_token: idTokenWithNonce('other-nonce'),
+          expires_in: 3600,
+        }),
+      });
+
+      await expect(
+        service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state')
+      ).rejects.toMatchObject({ error: 'invalid_id_token' });
+      expect(await service.isAuthenticated()).toBe(false);
+    });
+  });
+
+  describe('user claims', () => {
+    const idToken = ['{"alg":"none"}', JSON.stringify({ sub: 'user-123', name: 'Jane Doe' }), '']
+      .map(part => btoa(part).replace(/=/g, ''))
+      .join('.');
+
+    it('should decode the ID token claims', async () => {
+      localStorage.setItem('oauth2_access_token', 'test-token');
+      localStorage.setItem('oauth2_id_token', idToken);
+
+      expect(await service.getUser()).toEqual({ sub: 'user-123', name: 'Jane Doe' });
+      expect((await service.getAuthState()).user).toEqual({ sub: 'user-123', name: 'Jane Doe' });
+    });
+
+    it('should merge UserInfo claims for the same subject', async () => {
+      service = new OAuth2Service({ ...config, userinfoEndpoint: 'https://auth.example.com/userinfo' });
+      localStorage.setItem('oauth2_access_token', 'test-token');
+      localStorage.setItem('oauth2_id_token', idToken);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ sub: 'user-123', email: 'jane@example.com', picture: 'https://example.com/jane.png' }),
+      });
+
+      const user = await service.fetchUserInfo();
+
+      expect(global.fetch).toHaveBeenCalledWith('https://auth.example.com/userinfo', {
+        headers: { Accept: 'application/json', Authorization: 'Bearer test-token' },
+      });
+      expect(user).toEqual({
+        sub: 'user-123',
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        picture: 'https://example.com/jane.png',
+      });
+    });
+
+    it('should reject UserInfo for another subject', async () => {
+      service = new OAuth2Service({ ...config, userinfoEndpoint: 'https://auth.example.com/userinfo' });
+      localStorage.setItem('oauth2_access_token', 'test-token');
+      localStorage.setItem('oauth2_id_token', idToken);
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ sub: 'someone-else' }),
+      });
+
+      await expect(service.fetchUserInfo()).rejects.toMatchObject({ error: 'userinfo_failed' });
+      expect((await service.getUser())?.sub).toBe('user-123');
+    });
+
+    it('should drop the previous user\'s UserInfo on a new login', async () => {
+      localStorage.setItem('oauth2_user_info', JSON.stringify({ sub: 'previous-user', email: 'old@example.com' }));
+      expect((await service.getUser())?.sub).toBe('previous-user');
+
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'test-access-token', id_token: idToken, expires_in: 3600 }),
+      });
+
+      await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+
+      expect(await service.getUser()).toEqual({ sub: 'user-123', name: 'Jane Doe' });
+    });
+
+    it('should keep the ID token subject over a UserInfo one', async () => {
+      localStorage.setItem('oauth2_id_token', idToken);
+      localStorage.setItem('oauth2_user_info', JSON.stringify({ sub: 'previous-user', email: 'old@example.com' }));
+
+      expect((await service.getUser())?.sub).toBe('user-123');
+    });
+  });
+
+  describe('authorizeWithPopup', () => {
+    function createPopup() {
+      return { closed: false, close: vi.fn(), location: { href: '' } };
+    }
+
+    function postCallback(popup: unknown, url: string, origin = 'http://localhost:3000') {
+      const event = new MessageEvent('message', { origin, data: { type: 'oauth2:callback', url } });
+      Object.defineProperty(event, 'source', { value: popup });
+      window.dispatchEvent(event);
+    }
+
+    it('should reject when the popup is blocked', async () => {
+      window.open = vi.fn().mockReturnValue(null);
+
+      await expect(service.authorizeWithPopup()).rejects.toMatchObject({ error: 'popup_blocked' });
+    });
+
+    it('should resolve with tokens from the popup callback', async () => {
+      const popup = createPopup();
+      window.open = vi.fn().mockReturnValue(popup);
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'popup-access-token', expires_in: 3600 }),
+      });
+
+      const result = service.authorizeWithPopup();
+      await vi.waitFor(() => expect(popup.location.href).toContain(config.authorizationEndpoint));
+
+      const state = new URL(popup.location.href).searchParams.get('state');
+
+      // Messages from other origins are ignored
+      postCallback(popup, `http://localhost:3000/callback?code=evil&state=${state}`, 'https://evil.example.com');
+      postCallback(popup, `http://localhost:3000/callback?code=test-code&state=${state}`);
+
+      await expect(result).resolves.toMatchObject({ access_token: 'popup-access-token' });
+      expect(popup.close).toHaveBeenCalled();
+      expect(await service.getAccessToken()).toBe('popup-access-token');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when the popup is closed', async () => {
+      vi.useFakeTimers();
+      const popup = createPopup();
+      window.open = vi.fn().mockReturnValue(popup);
+
+      const result = service.authorizeWithPopup();
+      const assertion = expect(result).rejects.toMatchObject({ error: 'popup_closed' });
+
+      await vi.waitFor(() => expect(popup.location.href).not.toBe(''));
+      popup.closed = true;
+      await vi.advanceTimersByTimeAsync(500);
+
+      await assertion;
+      expect(localStorage.getItem('oauth2_state')).toBeNull();
+      // A cancelled login is not an error for the app to display
+      expect(service.getSnapshot().error).toBeNull();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('silent renew', () => {
+    async function respondFromIframe(query: (state: string) => string) {
+      let iframe: HTMLIFrameElement | null = null;
+      await vi.waitFor(() => {
+        iframe = document.querySelector('iframe[name="oauth2_silent_renew"]');
+        expect(iframe?.src).toContain('prompt=none');
+      });
+
+      const state = new URL(iframe!.src).searchParams.get('state')!;
+      const event = new MessageEvent('message', {
+        origin: 'http://localhost:3000',
+        data: { type: 'oauth2:callback', url: `http://localhost:3000/callback?${query(state)}` },
+      });
+      Object.defineProperty(event, 'source', { value: iframe!.contentWindow });
+      window.dispatchEvent(event);
+    }
+
+    beforeEach(() => {
+      service = new OAuth2Service({ ...config, silentRenew: true, autoRefresh: false });
+    });
+
+    it('should fall back to silent renew without a refresh token', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'silent-access-token', expires_in: 3600 }),
+      });
+
+      const refresh = service.refreshAccessToken();
+      await respondFromIframe(state => `code=test-code&state=${state}`);
+      await refresh;
+
+      expect(await service.getAccessToken()).toBe('silent-access-token');
+      expect(document.querySelector('iframe')).toBeNull();
+    });
+
+    it('should clear the session when the provider requires login', async () => {
+      localStorage.setItem('oauth2_access_token', 'stale-token');
+
+      const refresh = service.refreshAccessToken();
+      await respondFromIframe(state => `error=login_required&state=${state}`);
+
+      await expect(refresh).rejects.toMatchObject({ error: 'login_required' });
+      expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+    });
+
+    it('should time out when no callback arrives', async () => {
+      localStorage.setItem('oauth2_access_token', 'current-token');
+      service = new OAuth2Service({ ...config, autoRefresh: false });
+      vi.useFakeTimers();
+
+      const renew = service.signinSilent();
+      const assertion = expect(renew).rejects.toMatchObject({ error: 'silent_renew_timeout' });
+      await vi.waitFor(() => expect(vi.getTimerCount()).toBeGreaterThan(0));
+      await vi.advanceTimersByTimeAsync(10000);
+
+      await assertion;
+      expect(localStorage.getItem('oauth2_access_token')).toBe('current-token');
+      vi.useRealTimers();
+    });
   });
 
   describe('refreshAccessToken', () => {
@@ -95,12 +399,598 @@ describe('OAuth2Service', () => {
 
       await service.refreshAccessToken();
 
-      expect(service.getAccessToken()).toBe('new-access-token');
+      expect(await service.getAccessToken()).toBe('new-access-token');
+    });
+
+    it('should keep the refresh token when the response omits one', async () => {
+      const onRefreshEvent = vi.fn();
+      service = new OAuth2Service({ ...config, onRefreshEvent });
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'new-access-token', expires_in: 3600 }),
+      });
+
+      await service.refreshAccessToken();
+
+      expect(await service.getRefreshToken()).toBe('test-refresh-token');
+      expect(onRefreshEvent).toHaveBeenCalledWith({ type: 'refresh_succeeded', rotated: false });
+    });
+
+    it('should authenticate confidential clients through the configured fetch', async () => {
+      const customFetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        access_token: 'new-access-token',
+        expires_in: 3600,
+      })));
+      service = new OAuth2Service({
+        ...config,
+        tokenEndpointAuthMethod: 'client_secret_post',
+        clientSecret: 'test-secret',
+        fetch: customFetch,
+      });
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+      await service.refreshAccessToken();
+
+      const [url, init] = customFetch.mock.calls[0];
+      const body = new URLSearchParams(init.body);
+      expect(url).toBe(config.tokenEndpoint);
+      expect(body.get('client_id')).toBe('test-client-id');
+      expect(body.get('client_secret')).toBe('test-secret');
+      expect(body.get('refresh_token')).toBe('test-refresh-token');
+    });
+
+    it('should retry transient failures with backoff', async () => {
+      vi.useFakeTimers();
+      const onRefreshEvent = vi.fn();
+      service = new OAuth2Service({ ...config, onRefreshEvent });
+      localStorage.setItem('oauth2_access_token', 'old-access-token');
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+      global.fetch = vi.fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'temporarily_unavailable' }) })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ access_token: 'new-access-token', refresh_token: 'rotated-refresh-token' }),
+        });
+
+      const refresh = service.refreshAccessToken();
+      await vi.advanceTimersByTimeAsync(1000);
+      await vi.advanceTimersByTimeAsync(2000);
+      await refresh;
+
+      expect(onRefreshEvent.mock.calls.map(([event]) => [event.type, event.delay])).toEqual([
+        ['refresh_retrying', 1000],
+        ['refresh_retrying', 2000],
+        ['refresh_succeeded', undefined],
+      ]);
+      expect(onRefreshEvent).toHaveBeenLastCalledWith({ type: 'refresh_succeeded', rotated: true });
+      expect(await service.getRefreshToken()).toBe('rotated-refresh-token');
+      vi.useRealTimers();
+    });
+
+    it('should not restore the session when logout runs during a retry', async () => {
+      vi.useFakeTimers();
+      localStorage.setItem('oauth2_access_token', 'old-access-token');
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      await service.ready;
+
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(new Response('Internal Server Error', { status: 500 }))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'new-access-token', expires_in: 3600 })));
+
+      const refresh = service.refreshAccessToken();
+      const assertion = expect(refresh).rejects.toMatchObject({ code: 'refresh_failed' });
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+      await service.logout();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(await service.isAuthenticated()).toBe(false);
+      expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+      expect(service.getSnapshot().isAuthenticated).toBe(false);
+      vi.useRealTimers();
+    });
+
+    it('should drop a refresh response once the session has changed', async () => {
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      await service.ready;
+      let respond!: (response: Response) => void;
+      global.fetch = vi.fn().mockReturnValue(new Promise(resolve => {
+        respond = resolve;
+      }));
+
+      const refresh = service.refreshAccessToken();
+      await vi.waitFor(() => expect(global.fetch).toHaveBeenCalled());
+      localStorage.setItem('oauth2_refresh_token', 'other-refresh-token');
+      respond(new Response(JSON.stringify({ access_token: 'new-access-token', expires_in: 3600 })));
+
+      await expect(refresh).rejects.toMatchObject({ code: 'refresh_failed' });
+      expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+      expect(localStorage.getItem('oauth2_refresh_token')).toBe('other-refresh-token');
+    });
+
+    it('should end the session only on invalid_grant', async () => {
+      const onRefreshEvent = vi.fn();
+      service = new OAuth2Service({ ...config, onRefreshEvent });
+      localStorage.setItem('oauth2_access_token', 'old-access-token');
+      localStorage.setItem('oauth2_refresh_token', 'reused-refresh-token');
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        json: async () => ({ error: 'invalid_grant', error_description: 'Refresh token reuse detected' }),
+      });
+
+      await expect(service.refreshAccessToken()).rejects.toMatchObject({ error: 'invalid_grant' });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(onRefreshEvent).toHaveBeenCalledWith({
+        type: 'refresh_token_rejected',
+        error: expect.any(ProviderError),
+      });
+      expect(onRefreshEvent.mock.calls[0][0].error).toMatchObject({
+        error: 'invalid_grant',
+        error_description: 'Refresh token reuse detected',
+      });
+      expect(await service.getRefreshToken()).toBeNull();
+    });
+
+    it('should keep the session when retries are exhausted', async () => {
+      const onRefreshEvent = vi.fn();
+      service = new OAuth2Service({ ...config, onRefreshEvent, refreshRetryAttempts: 0 });
+      localStorage.setItem('oauth2_access_token', 'old-access-token');
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, json: async () => ({ error: 'server_error' }) });
+
+      await expect(service.refreshAccessToken()).rejects.toMatchObject({ error: 'server_error' });
+
+      expect(onRefreshEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'refresh_failed', attempts: 1 }));
+      expect(await service.getAccessToken()).toBe('old-access-token');
+      expect(await service.getRefreshToken()).toBe('test-refresh-token');
+    });
+
+    it('should refresh a session whose access token expired while the app was closed', async () => {
+      await service.ready;
+      localStorage.setItem('oauth2_access_token', 'expired-access-token');
+      localStorage.setItem('oauth2_expires_at', String(Date.now() - 1000));
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        access_token: 'new-access-token',
+        expires_in: 3600,
+      })));
+
+      service = new OAuth2Service(config);
+      await service.ready;
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(service.getSnapshot()).toMatchObject({ isAuthenticated: true, accessToken: 'new-access-token' });
+    });
+
+    it('should not end an expired session after a transient refresh failure', async () => {
+      const loggedOut = vi.fn();
+      await service.ready;
+      localStorage.setItem('oauth2_access_token', 'expired-access-token');
+      localStorage.setItem('oauth2_expires_at', String(Date.now() - 1000));
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      global.fetch = vi.fn().mockResolvedValue(new Response('Service Unavailable', { status: 503 }));
+
+      // The startup refresh fails first
+      service = new OAuth2Service({
+        ...config,
+        refreshRetryAttempts: 0,
+        revokeTokensOnLogout: true,
+        revocationEndpoint: 'https://auth.example.com/revoke',
+      });
+      service.on('loggedOut', loggedOut);
+      await service.ready;
+
+      expect(await service.getValidAccessToken()).toBeNull();
+
+      expect(loggedOut).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(await service.getRefreshToken()).toBe('test-refresh-token');
+      expect(service.getSnapshot()).toMatchObject({ isAuthenticated: false, refreshToken: 'test-refresh-token' });
+    });
+  });
+
+  describe('pushed authorization requests', () => {
+    const parEndpoint = 'https://auth.example.com/par';
+    let pushed: URLSearchParams[];
+
+    beforeEach(() => {
+      pushed = [];
+      global.fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        pushed.push(new URLSearchParams(init!.body as string));
+        return new Response(JSON.stringify({ request_uri: 'urn:example:request-1', expires_in: 60 }), { status: 201 });
+      }) as typeof fetch;
+    });
+
+    it('should redirect with only client_id and request_uri', async () => {
+      service = new OAuth2Service({ ...config, usePar: true, pushedAuthorizationRequestEndpoint: parEndpoint });
+
+      const request = await service.createAuthorizationUrl();
+
+      const url = new URL(request.url);
+      expect([...url.searchParams]).toEqual([
+        ['client_id', 'test-client-id'],
+        ['request_uri', 'urn:example:request-1'],
+      ]);
+      expect(pushed[0].get('state')).toBe(request.state);
+      expect(pushed[0].get('code_challenge_method')).toBe('S256');
+      expect(pushed[0].get('redirect_uri')).toBe(config.redirectUri);
+      expect(request.expiresAt).toBeGreaterThan(Date.now() + 55 * 1000);
+      expect(request.expiresAt).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+    });
+
+    it('should push a signed request object', async () => {
+      const { privateKey } = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign', 'verify']
+      );
+      service = new OAuth2Service({
+        ...config,
+        issuer: 'https://auth.example.com',
+        usePar: true,
+        pushedAuthorizationRequestEndpoint: parEndpoint,
+        requestObjectKey: { key: privateKey, alg: 'ES256', kid: 'request-key' },
+      });
+
+      const { state } = await service.createAuthorizationUrl({ prompt: 'login' });
+
+      expect([...pushed[0].keys()]).toEqual(['client_id', 'request']);
+      const requestObject = decodeJwt(pushed[0].get('request')!);
+      expect(requestObject.header).toEqual({ alg: 'ES256', typ: 'oauth-authz-req+jwt', kid: 'request-key' });
+      expect(requestObject.payload).toMatchObject({
+        iss: 'test-client-id',
+        aud: 'https://auth.example.com',
+        client_id: 'test-client-id',
+        response_type: 'code',
+        state,
+        prompt: 'login',
+      });
+    });
+
+    it('should send request objects by value without PAR', async () => {
+      const { privateKey } = await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign', 'verify']
+      );
+      service = new OAuth2Service({
+        ...config,
+        issuer: 'https://auth.example.com',
+        requestObjectKey: { key: privateKey, alg: 'ES256' },
+      });
+
+      const { url } = await service.createAuthorizationUrl();
+
+      const { searchParams } = new URL(url);
+      expect(searchParams.get('client_id')).toBe('test-client-id');
+      expect(searchParams.has('state')).toBe(false);
+      expect(decodeJwt(searchParams.get('request')!).payload).toHaveProperty('code_challenge');
+      expect(pushed).toHaveLength(0);
+    });
+
+    it('should reject PAR without an endpoint', async () => {
+      service = new OAuth2Service({ ...config, usePar: true });
+
+      await expect(service.createAuthorizationUrl()).rejects.toMatchObject({ error: 'pushed_authorization_failed' });
+    });
+  });
+
+  describe('introspection', () => {
+    const introspectionEndpoint = 'https://auth.example.com/introspect';
+    let active: boolean;
+
+    beforeEach(() => {
+      active = true;
+      global.fetch = vi.fn(async () => new Response(JSON.stringify(active
+        ? { active: true, scope: 'openid', sub: 'user-123', client_id: 'test-client-id', exp: 2000000000 }
+        : { active: false }))) as typeof fetch;
+      localStorage.setItem('oauth2_access_token', 'opaque-access-token');
+    });
+
+    it('should introspect the access token and cache the result', async () => {
+      service = new OAuth2Service({ ...config, introspectionEndpoint, introspectionCacheTime: 30 });
+
+      const result = await service.introspect();
+      await service.introspect();
+
+      expect(result).toMatchObject({ active: true, sub: 'user-123', client_id: 'test-client-id', exp: 2000000000 });
+      expect(global.fetch).toHaveBeenCalledOnce();
+      const body = new URLSearchParams(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+      expect(body.get('token')).toBe('opaque-access-token');
+      expect(body.get('token_type_hint')).toBe('access_token');
+    });
+
+    it('should take the expiry from an active session', async () => {
+      service = new OAuth2Service({ ...config, introspectionEndpoint, introspectSession: true, autoRefresh: false });
+      await service.ready;
+
+      expect(await service.getTokenExpiry()).toBe(2000000000 * 1000);
+      expect(await service.isAuthenticated()).toBe(true);
+    });
+
+    it('should clear a revoked session on startup', async () => {
+      active = false;
+      const onAuthStateChange = vi.fn();
+      service = new OAuth2Service({ ...config, introspectionEndpoint, introspectSession: true, onAuthStateChange });
+      await service.ready;
+
+      expect(await service.isAuthenticated()).toBe(false);
+      expect(onAuthStateChange).toHaveBeenCalledWith(false);
+    });
+
+    it('should revalidate when the page becomes visible', async () => {
+      service = new OAuth2Service({ ...config, introspectionEndpoint, introspectSession: true, introspectionCacheTime: 0 });
+      await service.ready;
+      active = false;
+
+      document.dispatchEvent(new Event('visibilitychange'));
+      await vi.waitFor(async () => expect(await service.isAuthenticated()).toBe(false));
+      service.destroy();
+    });
+
+    it('should keep the session when introspection fails', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      service = new OAuth2Service({ ...config, introspectionEndpoint });
+
+      expect(await service.validateSession()).toBe(true);
+      expect(await service.isAuthenticated()).toBe(true);
+    });
+  });
+
+  describe('device flow', () => {
+    const authorization = {
+      device_code: 'test-device-code',
+      user_code: 'WDJB-MJHT',
+      verification_uri: 'https://auth.example.com/device',
+      verification_uri_complete: 'https://auth.example.com/device?user_code=WDJB-MJHT',
+      expires_in: 1800,
+      interval: 5,
+    };
+
+    function tokenError(error: string) {
+      return { ok: false, json: async () => ({ error }) };
+    }
+
+    beforeEach(() => {
+      service = new OAuth2Service({
+        ...config,
+        autoRefresh: false,
+        deviceAuthorizationEndpoint: 'https://auth.example.com/device_authorization',
+      });
+    });
+
+    it('should request a user code', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => authorization });
+
+      await expect(service.requestDeviceAuthorization()).resolves.toEqual(authorization);
+
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe('https://auth.example.com/device_authorization');
+      expect(init!.body).toBe('client_id=test-client-id&scope=openid+profile+email');
+    });
+
+    it('should poll until approved, slowing down when asked', async () => {
+      vi.useFakeTimers();
+      const onAuthStateChange = vi.fn();
+      service = new OAuth2Service({ ...config, autoRefresh: false, onAuthStateChange });
+
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(tokenError('authorization_pending'))
+        .mockResolvedValueOnce(tokenError('slow_down'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ access_token: 'device-access-token', expires_in: 3600 }) });
+
+      const poll = service.pollDeviceToken(authorization);
+      await vi.advanceTimersByTimeAsync(5000);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(5000);
+      await poll;
+      vi.useRealTimers();
+
+      const body = new URLSearchParams(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+      expect(body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:device_code');
+      expect(body.get('device_code')).toBe('test-device-code');
+      expect(await service.getAccessToken()).toBe('device-access-token');
+      expect(onAuthStateChange).toHaveBeenCalledWith(true);
+    });
+
+    it('should stop when the user denies access', async () => {
+      global.fetch = vi.fn().mockResolvedValue(tokenError('access_denied'));
+
+      await expect(service.pollDeviceToken({ ...authorization, interval: 0 })).rejects.toMatchObject({ error: 'access_denied' });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop polling when aborted', async () => {
+      global.fetch = vi.fn();
+      const controller = new AbortController();
+      const poll = service.pollDeviceToken(authorization, { signal: controller.signal });
+
+      controller.abort(new Error('Cancelled'));
+
+      await expect(poll).rejects.toThrow('Cancelled');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('auth store', () => {
+    it('should publish immutable snapshots once startup completes', async () => {
+      localStorage.setItem('oauth2_access_token', 'test-access-token');
+      service = new OAuth2Service(config);
+
+      expect(service.getSnapshot()).toMatchObject({ isInitializing: true, isLoading: true, isAuthenticated: false });
+      await service.ready;
+
+      const snapshot = service.getSnapshot();
+      expect(snapshot).toMatchObject({
+        isInitializing: false,
+        isLoading: false,
+        isAuthenticated: true,
+        accessToken: 'test-access-token',
+      });
+      expect(Object.isFrozen(snapshot)).toBe(true);
+      expect(service.getSnapshot()).toBe(snapshot);
+    });
+
+    it('should stay loading while a refresh is in flight', async () => {
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      await service.ready;
+      let respond!: (response: Response) => void;
+      global.fetch = vi.fn().mockReturnValue(new Promise(resolve => {
+        respond = resolve;
+      }));
+      const listener = vi.fn();
+      service.subscribe(listener);
+
+      const refresh = service.refreshAccessToken();
+      expect(service.getSnapshot()).toMatchObject({ isInitializing: false, isLoading: true });
+
+      respond(new Response(JSON.stringify({ access_token: 'new-access-token', expires_in: 3600 })));
+      await refresh;
+
+      expect(service.getSnapshot()).toMatchObject({ isLoading: false, accessToken: 'new-access-token' });
+      expect(listener).toHaveBeenLastCalledWith(service.getSnapshot());
+    });
+
+    it('should publish a logout caused by an expired token', async () => {
+      localStorage.setItem('oauth2_access_token', 'expiring-token');
+      localStorage.setItem('oauth2_expires_at', String(Date.now() + 60000));
+      await service.ready;
+      expect(service.getSnapshot().isAuthenticated).toBe(true);
+
+      localStorage.setItem('oauth2_expires_at', String(Date.now() - 1000));
+      await service.getAccessToken();
+
+      expect(service.getSnapshot()).toMatchObject({ isAuthenticated: false, accessToken: null });
+    });
+
+    it('should keep login errors in the snapshot until the next login', async () => {
+      localStorage.setItem('oauth2_state', 'test-state');
+      await service.ready;
+
+      await service.handleCallback('http://localhost:3000/callback?error=access_denied').catch(() => {});
+      expect(service.getSnapshot().error).toBeInstanceOf(ProviderError);
+
+      Object.defineProperty(window, 'location', { value: { href: '' }, writable: true });
+      await service.authorize();
+      expect(service.getSnapshot().error).toBeNull();
+    });
+  });
+
+  describe('events', () => {
+    it('should emit the login lifecycle in order', async () => {
+      const events: string[] = [];
+      const tokensStored = vi.fn();
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        access_token: 'test-access-token',
+        expires_in: 3600,
+      })));
+
+      service.on('tokensStored', tokensStored);
+      service.on('tokensStored', () => events.push('tokensStored'));
+      service.on('refreshScheduled', () => events.push('refreshScheduled'));
+      service.on('callbackHandled', () => events.push('callbackHandled'));
+      const unsubscribe = service.on('loggedOut', () => events.push('loggedOut'));
+      unsubscribe();
+
+      await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+      await service.logout();
+
+      expect(events).toEqual(['tokensStored', 'refreshScheduled', 'callbackHandled']);
+      expect(tokensStored).toHaveBeenCalledWith({
+        tokens: expect.objectContaining({ access_token: 'test-access-token' }),
+        expiresAt: expect.any(Number),
+      });
+    });
+
+    it('should report a rejected refresh with the logout reason', async () => {
+      const refreshFailed = vi.fn();
+      const loggedOut = vi.fn();
+      localStorage.setItem('oauth2_refresh_token', 'revoked-refresh-token');
+      global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ error: 'invalid_grant' }), { status: 400 }));
+      service.on('refreshFailed', refreshFailed);
+      service.on('loggedOut', loggedOut);
+
+      await expect(service.refreshAccessToken()).rejects.toBeInstanceOf(ProviderError);
+
+      expect(loggedOut).toHaveBeenCalledWith({ reason: 'refresh_failed' });
+      expect(refreshFailed).toHaveBeenCalledTimes(1);
+      expect(refreshFailed.mock.calls[0][0].error).toMatchObject({ code: 'invalid_grant', status: 400 });
+    });
+
+    it('should emit refresh retries and reuse detection', async () => {
+      const events: string[] = [];
+      const onRefreshEvent = vi.fn();
+      service = new OAuth2Service({ ...config, onRefreshEvent, refreshRetryDelay: 0.001 });
+      localStorage.setItem('oauth2_refresh_token', 'reused-refresh-token');
+      global.fetch = vi.fn()
+        .mockResolvedValueOnce(new Response('Service Unavailable', { status: 503 }))
+        .mockResolvedValue(new Response(JSON.stringify({ error: 'invalid_grant' }), { status: 400 }));
+
+      service.on('refreshRetrying', ({ attempt, error }) => events.push(`refreshRetrying:${attempt}:${error.code}`));
+      service.on('refreshTokenRejected', ({ error }) => events.push(`refreshTokenRejected:${error.code}`));
+      service.on('loggedOut', ({ reason }) => events.push(`loggedOut:${reason}`));
+      service.on('refreshFailed', ({ attempts }) => events.push(`refreshFailed:${attempts}`));
+
+      await expect(service.refreshAccessToken()).rejects.toBeInstanceOf(ProviderError);
+
+      expect(events).toEqual([
+        'refreshRetrying:1:invalid_response',
+        'refreshTokenRejected:invalid_grant',
+        'loggedOut:refresh_failed',
+        'refreshFailed:2',
+      ]);
+      // onRefreshEvent is fed from the same events
+      expect(onRefreshEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'refresh_retrying',
+        'refresh_token_rejected',
+      ]);
+    });
+
+    it('should emit tokenExpired before signing out an expired session', async () => {
+      const events: unknown[] = [];
+      const expiresAt = Date.now() - 1000;
+      localStorage.setItem('oauth2_access_token', 'expired-token');
+      localStorage.setItem('oauth2_expires_at', String(expiresAt));
+      service.on('tokenExpired', payload => events.push(payload));
+      service.on('loggedOut', payload => events.push(payload));
+
+      expect(await service.getAccessToken()).toBeNull();
+
+      expect(events).toEqual([{ expiresAt }, { reason: 'expired' }]);
+    });
+
+    it('should not let a throwing handler break the flow', async () => {
+      const logger = { debug: vi.fn(), error: vi.fn() };
+      service = new OAuth2Service({ ...config, logger });
+      const failure = new Error('handler failed');
+      const loggedOut = vi.fn();
+      service.on('loggedOut', () => {
+        throw failure;
+      });
+      service.on('loggedOut', loggedOut);
+
+      await service.logout();
+
+      expect(loggedOut).toHaveBeenCalledWith({ reason: 'user' });
+      expect(logger.error).toHaveBeenCalledWith('Error in loggedOut handler:', failure);
     });
   });
 
   describe('logout', () => {
-    it('should clear tokens and redirect', () => {
+    it('should clear tokens and redirect', async () => {
       // Set tokens
       localStorage.setItem('oauth2_access_token', 'test-token');
       
@@ -110,11 +1000,80 @@ describe('OAuth2Service', () => {
         writable: true,
       });
 
-      service.logout('http://localhost:3000');
+      await service.logout('http://localhost:3000');
 
-      expect(service.isAuthenticated()).toBe(false);
+      expect(await service.isAuthenticated()).toBe(false);
       expect(localStorage.getItem('oauth2_access_token')).toBeNull();
       expect(mockLocation.href).toBe('http://localhost:3000');
     });
+
+    describe('token revocation', () => {
+      const revocationEndpoint = 'https://auth.example.com/revoke';
+
+      beforeEach(() => {
+        Object.defineProperty(window, 'location', { value: { href: '' }, writable: true });
+        localStorage.setItem('oauth2_access_token', 'test-access-token');
+        localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      });
+
+      it('should revoke the refresh token, then the access token', async () => {
+        global.fetch = vi.fn().mockImplementation(async () => new Response(null, { status: 200 }));
+        service = new OAuth2Service({ ...config, revocationEndpoint, revokeTokensOnLogout: true });
+
+        await service.logout();
+
+        const bodies = vi.mocked(global.fetch).mock.calls.map(([url, init]) => {
+          expect(url).toBe(revocationEndpoint);
+          return Object.fromEntries(new URLSearchParams(init!.body as string));
+        });
+        expect(bodies).toEqual([
+          { token: 'test-refresh-token', token_type_hint: 'refresh_token', client_id: 'test-client-id' },
+          { token: 'test-access-token', token_type_hint: 'access_token', client_id: 'test-client-id' },
+        ]);
+        expect(localStorage.getItem('oauth2_refresh_token')).toBeNull();
+      });
+
+      it('should report failures and still sign out', async () => {
+        const onRevocationError = vi.fn();
+        global.fetch = vi.fn()
+          .mockResolvedValueOnce(new Response(JSON.stringify({ error: 'unsupported_token_type' }), { status: 400 }))
+          .mockResolvedValueOnce(new Response('Bad Gateway', { status: 502 }));
+        service = new OAuth2Service({ ...config, revocationEndpoint, revokeTokensOnLogout: true, onRevocationError });
+
+        await service.logout();
+
+        expect(onRevocationError).toHaveBeenCalledWith(expect.any(ProviderError), 'refresh_token');
+        expect(onRevocationError).toHaveBeenCalledWith(expect.any(InvalidResponseError), 'access_token');
+        expect(onRevocationError.mock.calls[0][0]).toMatchObject({ error: 'unsupported_token_type', status: 400 });
+        expect(onRevocationError.mock.calls[1][0]).toMatchObject({ error: 'invalid_response', status: 502 });
+        expect(await service.isAuthenticated()).toBe(false);
+      });
+
+      it('should not let a hanging revocation block logout', async () => {
+        vi.useFakeTimers();
+        const onRevocationError = vi.fn();
+        global.fetch = vi.fn(() => new Promise<Response>(() => {}));
+        service = new OAuth2Service({
+          ...config,
+          revocationEndpoint,
+          revokeTokensOnLogout: true,
+          revocationTimeout: 2,
+          onRevocationError,
+        });
+
+        const logout = service.logout();
+        await vi.advanceTimersByTimeAsync(2000);
+        await logout;
+        vi.useRealTimers();
+
+        expect(onRevocationError).toHaveBeenCalledWith(expect.objectContaining({ error: 'revocation_timeout' }), 'refresh_token');
+        expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+      });
+
+      it('should reject revokeToken() without an endpoint', async () => {
+        await expect(service.revokeToken('test-access-token', 'access_token'))
+          .rejects.toMatchObject({ error: 'revocation_failed' });
+      });
+    });
   });
 });
\ No newline at end of file
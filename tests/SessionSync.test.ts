@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('cross-tab session sync', () => {
+  let tabs: OAuth2Service[];
+  let config: OAuth2Config;
+
+  function openTab(overrides: Partial<OAuth2Config> = {}): OAuth2Service {
+    const tab = new OAuth2Service({ ...config, ...overrides });
+    tabs.push(tab);
+    return tab;
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    tabs = [];
+    config = {
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint: 'https://auth.example.com/token',
+      redirectUri: 'http://localhost:3000/callback',
+      autoRefresh: false,
+      syncTabs: true,
+    };
+  });
+
+  afterEach(() => {
+    tabs.forEach(tab => tab.destroy());
+  });
+
+  it('should refresh only once across tabs', async () => {
+    localStorage.setItem('oauth2_access_token', 'old-access-token');
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+    global.fetch = vi.fn().mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ access_token: 'new-access-token', refresh_token: 'rotated-refresh-token', expires_in: 3600 }),
+    }));
+
+    const first = openTab();
+    const second = openTab();
+
+    await Promise.all([first.refreshAccessToken(), second.refreshAccessToken()]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(await second.getAccessToken()).toBe('new-access-token');
+    expect(localStorage.getItem('oauth2_session_lock')).toBeNull();
+  });
+
+  it('should propagate logout to other tabs', async () => {
+    localStorage.setItem('oauth2_access_token', 'test-access-token');
+
+    const onAuthStateChange = vi.fn();
+    const first = openTab();
+    openTab({ onAuthStateChange });
+
+    await first.logout();
+
+    await vi.waitFor(() => expect(onAuthStateChange).toHaveBeenCalledWith(false));
+  });
+
+  it('should propagate refreshed tokens to other tabs', async () => {
+    localStorage.setItem('oauth2_access_token', 'old-access-token');
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'new-access-token', token_type: 'Bearer', expires_in: 3600 }),
+    });
+
+    const onTokenRefresh = vi.fn();
+    const first = openTab();
+    openTab({ onTokenRefresh });
+
+    await first.refreshAccessToken();
+
+    await vi.waitFor(() => expect(onTokenRefresh).toHaveBeenCalledWith(
+      expect.objectContaining({ access_token: 'new-access-token', refresh_token: 'test-refresh-token' })
+    ));
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+
+const tokenEndpoint = 'https://auth.example.com/token';
+const apiUrl = 'https://api.example.com/data';
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), { status: 200, ...init });
+}
+
+describe('authenticated fetch', () => {
+  let service: OAuth2Service;
+  let requests: Request[];
+  let apiResponses: Response[];
+
+  beforeEach(() => {
+    localStorage.clear();
+    requests = [];
+    apiResponses = [];
+
+    service = new OAuth2Service({
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint,
+      redirectUri: 'http://localhost:3000/callback',
+      autoRefresh: false,
+    });
+
+    localStorage.setItem('oauth2_access_token', 'old-access-token');
+    localStorage.setItem('oauth2_token_type', 'bearer');
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    localStorage.setItem('oauth2_expires_at', String(Date.now() + 3600 * 1000));
+
+    global.fetch = vi.fn(async (input: RequestInfo | URL) => {
+      if (input === tokenEndpoint) {
+        return jsonResponse({ access_token: 'new-access-token', token_type: 'Bearer', expires_in: 3600 });
+      }
+      requests.push(input as Request);
+      return apiResponses.shift() ?? jsonResponse({ ok: true });
+    }) as typeof fetch;
+  });
+
+  it('should attach the access token with its token type', async () => {
+    await service.fetch(apiUrl);
+
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer old-access-token');
+  });
+
+  it('should send resource requests through the configured fetch', async () => {
+    const configuredFetch = vi.fn(async () => jsonResponse({ ok: true }));
+    service = new OAuth2Service({
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint,
+      redirectUri: 'http://localhost:3000/callback',
+      autoRefresh: false,
+      fetch: configuredFetch,
+    });
+
+    await service.fetch(apiUrl);
+
+    expect(configuredFetch).toHaveBeenCalledOnce();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should refresh proactively once for concurrent callers', async () => {
+    localStorage.setItem('oauth2_expires_at', String(Date.now() + 60 * 1000));
+
+    await Promise.all([service.fetch(apiUrl), service.fetch(apiUrl)]);
+
+    const tokenCalls = vi.mocked(global.fetch).mock.calls.filter(([input]) => input === tokenEndpoint);
+    expect(tokenCalls).toHaveLength(1);
+    expect(requests.map(request => request.headers.get('Authorization'))).toEqual([
+      'Bearer new-access-token',
+      'Bearer new-access-token',
+    ]);
+  });
+
+  it('should refresh and replay once on an invalid_token challenge', async () => {
+    apiResponses.push(new Response(null, {
+      status: 401,
+      headers: { 'WWW-Authenticate': 'Bearer realm="api", error="invalid_token"' },
+    }));
+
+    const response = await service.fetch(apiUrl, { method: 'POST', body: 'payload' });
+
+    expect(response.status).toBe(200);
+    expect(requests).toHaveLength(2);
+    expect(requests[1].headers.get('Authorization')).toBe('Bearer new-access-token');
+    expect(await requests[1].text()).toBe('payload');
+  });
+
+  it('should replay without refreshing when the token changed in the meantime', async () => {
+    const rejected = new Response(null, {
+      status: 401,
+      headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+    });
+    const originalFetch = global.fetch;
+    global.fetch = vi.fn(async (input: RequestInfo | URL) => {
+      if (input !== tokenEndpoint && requests.length === 0) {
+        // Another request rotates the token while this one is in flight
+        localStorage.setItem('oauth2_access_token', 'rotated-access-token');
+        requests.push(input as Request);
+        return rejected;
+      }
+      return originalFetch(input);
+    }) as typeof fetch;
+
+    const response = await service.fetch(apiUrl);
+
+    expect(response.status).toBe(200);
+    expect(vi.mocked(global.fetch).mock.calls.filter(([input]) => input === tokenEndpoint)).toHaveLength(0);
+    expect(requests[1].headers.get('Authorization')).toBe('Bearer rotated-access-token');
+  });
+
+  it('should not retry other 401 responses', async () => {
+    apiResponses.push(new Response(null, { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="api"' } }));
+
+    const response = await service.fetch(apiUrl);
+
+    expect(response.status).toBe(401);
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,201 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createBffHandler } from '../src/node/bff';
+import { toNodeListener } from '../src/node/http';
+
+const secret = 'test-secret-that-is-at-least-32-characters';
+
+function listen(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<[Server, string]> {
+  const server = createServer(handler);
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve([server, `http://127.0.0.1:${(server.address() as AddressInfo).port}`]);
+    });
+  });
+}
+
+describe('BFF handlers', () => {
+  let servers: Server[];
+  let authUrl: string;
+  let bffUrl: string;
+  let tokenRequests: URLSearchParams[];
+  let expiresIn: number;
+  let tokenPadding: number;
+
+  beforeAll(async () => {
+    // Mock authorization server: approves every request and issues numbered tokens
+    const [auth, authBase] = await listen(async (req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+
+      if (url.pathname === '/authorize') {
+        const callback = new URL(url.searchParams.get('redirect_uri')!);
+        callback.searchParams.set('code', 'test-code');
+        callback.searchParams.set('state', url.searchParams.get('state')!);
+        res.writeHead(302, { Location: callback.href }).end();
+        return;
+      }
+
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      tokenRequests.push(new URLSearchParams(body));
+
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        access_token: `access-token-${tokenRequests.length}${'x'.repeat(tokenPadding)}`,
+        refresh_token: `refresh-token-${tokenRequests.length}${'x'.repeat(tokenPadding)}`,
+        token_type: 'Bearer',
+        expires_in: expiresIn,
+      }));
+    });
+
+    const [api, apiBase] = await listen((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'upstream=1' }).end(JSON.stringify({
+        path: req.url,
+        authorization: req.headers.authorization ?? null,
+        cookie: req.headers.cookie ?? null,
+      }));
+    });
+
+    let listener: ReturnType<typeof toNodeListener>;
+    const [bff, bffBase] = await listen((req, res) => listener(req, res));
+    listener = toNodeListener(createBffHandler({
+      oauth: {
+        clientId: 'test-client-id',
+        authorizationEndpoint: `${authBase}/authorize`,
+        tokenEndpoint: `${authBase}/token`,
+        redirectUri: `${bffBase}/callback`,
+        logoutEndpoint: `${authBase}/logout`,
+      },
+      secret,
+      apiBaseUrl: apiBase,
+    }));
+
+    servers = [auth, api, bff];
+    [authUrl, bffUrl] = [authBase, bffBase];
+  });
+
+  afterAll(async () => {
+    await Promise.all(servers.map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  beforeEach(() => {
+    tokenRequests = [];
+    expiresIn = 3600;
+    tokenPadding = 0;
+  });
+
+  /**
+   * Log in like a browser would, returning the session cookie
+   */
+  async function login(): Promise<string> {
+    const loginResponse = await fetch(`${bffUrl}/login?returnTo=/dashboard`, { redirect: 'manual' });
+    const pendingCookie = loginResponse.headers.get('set-cookie')!.split(';')[0];
+
+    const authorizeResponse = await fetch(loginResponse.headers.get('location')!, { redirect: 'manual' });
+    const callbackResponse = await fetch(authorizeResponse.headers.get('location')!, {
+      redirect: 'manual',
+      headers: { Cookie: pendingCookie },
+    });
+
+    expect(callbackResponse.status).toBe(302);
+    expect(callbackResponse.headers.get('location')).toBe('/dashboard');
+    return callbackResponse.headers.get('set-cookie')!;
+  }
+
+  it('should keep tokens in an encrypted HttpOnly cookie', async () => {
+    const setCookie = await login();
+
+    expect(setCookie).toMatch(/^oauth2_session=/);
+    expect(setCookie).toContain('HttpOnly');
+    expect(setCookie).not.toContain('access-token');
+    expect(tokenRequests[0].get('grant_type')).toBe('authorization_code');
+
+    const session = await fetch(`${bffUrl}/session`, { headers: { Cookie: setCookie.split(';')[0] } });
+    expect(await session.json()).toEqual({ isAuthenticated: true });
+  });
+
+  it('should proxy API calls with the access token', async () => {
+    const cookie = (await login()).split(';')[0];
+
+    const response = await fetch(`${bffUrl}/api/data?id=1`, { headers: { Cookie: cookie, 'X-CSRF': '1' } });
+
+    expect(await response.json()).toEqual({ path: '/data?id=1', authorization: 'Bearer access-token-1', cookie: null });
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should reject API calls without the CSRF header', async () => {
+    const cookie = (await login()).split(';')[0];
+
+    const response = await fetch(`${bffUrl}/api/data`, { headers: { Cookie: cookie } });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should refresh expiring tokens server-side', async () => {
+    expiresIn = 60;
+    const cookie = (await login()).split(';')[0];
+    expiresIn = 3600;
+
+    const response = await fetch(`${bffUrl}/api/data`, { headers: { Cookie: cookie, 'X-CSRF': '1' } });
+
+    expect((await response.json()).authorization).toBe('Bearer access-token-2');
+    expect(tokenRequests[1].get('refresh_token')).toBe('refresh-token-1');
+    expect(response.headers.get('set-cookie')).toMatch(/^oauth2_session=/);
+  });
+
+  it('should clear the session on logout', async () => {
+    const cookie = (await login()).split(';')[0];
+
+    const response = await fetch(`${bffUrl}/logout`, { redirect: 'manual', headers: { Cookie: cookie } });
+
+    expect(response.headers.get('location')).toBe(
+      `${authUrl}/logout?client_id=test-client-id&post_logout_redirect_uri=${encodeURIComponent(`${bffUrl}/`)}`
+    );
+    expect(response.headers.get('set-cookie')).toContain('Max-Age=0');
+  });
+
+  it('should split sessions with realistic token sizes across cookies', async () => {
+    // Signed JWTs from real providers are commonly 1-3 KB each
+    tokenPadding = 2500;
+    const loginResponse = await fetch(`${bffUrl}/login`, { redirect: 'manual' });
+    const authorizeResponse = await fetch(loginResponse.headers.get('location')!, { redirect: 'manual' });
+    const callbackResponse = await fetch(authorizeResponse.headers.get('location')!, {
+      redirect: 'manual',
+      headers: { Cookie: loginResponse.headers.getSetCookie()[0].split(';')[0] },
+    });
+
+    const setCookies = callbackResponse.headers.getSetCookie();
+    expect(setCookies.length).toBeGreaterThan(1);
+    setCookies.forEach(setCookie => expect(setCookie.length).toBeLessThan(4096));
+    const cookie = setCookies.map(setCookie => setCookie.split(';')[0]).join('; ');
+
+    const response = await fetch(`${bffUrl}/api/data`, { headers: { Cookie: cookie, 'X-CSRF': '1' } });
+    expect((await response.json()).authorization).toBe(`Bearer access-token-1${'x'.repeat(2500)}`);
+
+    const logoutResponse = await fetch(`${bffUrl}/logout`, { redirect: 'manual', headers: { Cookie: cookie } });
+    const cleared = logoutResponse.headers.getSetCookie();
+    expect(cleared).toHaveLength(setCookies.length);
+    cleared.forEach(setCookie => expect(setCookie).toContain('Max-Age=0'));
+  });
+
+  it('should ignore other cookies that are not valid percent-encoding', async () => {
+    const cookie = (await login()).split(';')[0];
+
+    const response = await fetch(`${bffUrl}/session`, { headers: { Cookie: `promo=50%; ${cookie}` } });
+
+    expect(await response.json()).toEqual({ isAuthenticated: true });
+  });
+
+  it('should treat a tampered cookie as logged out', async () => {
+    const cookie = (await login()).split(';')[0];
+
+    const response = await fetch(`${bffUrl}/api/data`, {
+      headers: { Cookie: `${cookie.slice(0, -4)}AAAA`, 'X-CSRF': '1' },
+    });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll } from 'vitest';
+import { applyClientAuthentication } from '../src/core/clientAuth';
+import { CLIENT_ASSERTION_TYPE_JWT_BEARER } from '../src/core/constants';
+import { decodeJwt, verifyJwtSignature } from '../src/utils/jwt';
+
+const tokenEndpoint = 'https://auth.example.com/token';
+
+async function authenticate(auth: Parameters<typeof applyClientAuthentication>[0]) {
+  const headers = new Headers();
+  const body = new URLSearchParams({ grant_type: 'refresh_token', client_id: auth.clientId });
+  await applyClientAuthentication(auth, headers, body);
+  return { headers, body };
+}
+
+describe('client authentication', () => {
+  let ecKeys: CryptoKeyPair;
+
+  beforeAll(async () => {
+    ecKeys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  });
+
+  it('should only send client_id for public clients', async () => {
+    const { headers, body } = await authenticate({ clientId: 'spa', tokenEndpoint });
+
+    expect(headers.has('Authorization')).toBe(false);
+    expect([...body.keys()]).toEqual(['grant_type', 'client_id']);
+  });
+
+  it('should sign a private_key_jwt assertion for the token endpoint', async () => {
+    const jwk = await crypto.subtle.exportKey('jwk', ecKeys.privateKey);
+    const auth = {
+      clientId: 'backend',
+      tokenEndpoint,
+      tokenEndpointAuthMethod: 'private_key_jwt' as const,
+      clientAssertionKey: { key: jwk, alg: 'ES256' as const, kid: 'key-1' },
+    };
+
+    const first = (await authenticate(auth)).body;
+    const second = (await authenticate(auth)).body;
+    const assertion = decodeJwt(first.get('client_assertion')!);
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(first.get('client_id')).toBe('backend');
+    expect(first.get('client_assertion_type')).toBe(CLIENT_ASSERTION_TYPE_JWT_BEARER);
+    expect(assertion.header).toEqual({ alg: 'ES256', typ: 'JWT', kid: 'key-1' });
+    expect(assertion.payload).toMatchObject({ iss: 'backend', sub: 'backend', aud: tokenEndpoint });
+    expect(assertion.payload.exp).toBeLessThanOrEqual(now + 60);
+    expect(assertion.payload.jti).not.toBe(decodeJwt(second.get('client_assertion')!).payload.jti);
+    expect(await verifyJwtSignature(assertion, ecKeys.publicKey, 'ES256')).toBe(true);
+  });
+
+  it('should sign with a non-extractable CryptoKey', async () => {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+
+    const { body } = await authenticate({
+      clientId: 'backend',
+      tokenEndpoint,
+      tokenEndpointAuthMethod: 'private_key_jwt',
+      clientAssertionKey: { key: privateKey },
+    });
+
+    const assertion = decodeJwt(body.get('client_assertion')!);
+    expect(assertion.header.alg).toBe('RS256');
+    expect(await verifyJwtSignature(assertion, publicKey, 'RS256')).toBe(true);
+  });
+
+  it('should require the credential for the configured method', async () => {
+    await expect(authenticate({ clientId: 'backend', tokenEndpoint, tokenEndpointAuthMethod: 'client_secret_basic' }))
+      .rejects.toMatchObject({ code: 'configuration_error', message: 'client_secret_basic requires a clientSecret' });
+    await expect(authenticate({ clientId: 'backend', tokenEndpoint, tokenEndpointAuthMethod: 'private_key_jwt' }))
+      .rejects.toThrow('private_key_jwt requires a clientAssertionKey');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { discoverMetadata, getDiscoveryUrls, clearMetadataCache } from '../src/core/discovery';
+
+const issuer = 'https://auth.example.com';
+
+const metadata = {
+  issuer,
+  authorization_endpoint: `${issuer}/authorize`,
+  token_endpoint: `${issuer}/token`,
+  end_session_endpoint: `${issuer}/logout`,
+  scopes_supported: ['openid', 'profile', 'email'],
+  code_challenge_methods_supported: ['S256'],
+};
+
+function mockJson(body: unknown, ok = true) {
+  return { ok, json: async () => body };
+}
+
+describe('discovery', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    clearMetadataCache();
+  });
+
+  it('should build OIDC and RFC 8414 metadata URLs', () => {
+    expect(getDiscoveryUrls('https://auth.example.com/tenant/')).toEqual([
+      'https://auth.example.com/tenant/.well-known/openid-configuration',
+      'https://auth.example.com/.well-known/oauth-authorization-server/tenant',
+    ]);
+  });
+
+  it('should fall back to RFC 8414 metadata and cache the result', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(mockJson({}, false))
+      .mockResolvedValueOnce(mockJson(metadata));
+
+    await expect(discoverMetadata(issuer)).resolves.toEqual(metadata);
+    await expect(discoverMetadata(issuer)).resolves.toEqual(metadata);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(global.fetch).toHaveBeenLastCalledWith(
+      'https://auth.example.com/.well-known/oauth-authorization-server',
+      expect.anything()
+    );
+  });
+
+  it('should reject metadata for a different issuer', async () => {
+    global.fetch = vi.fn().mockResolvedValue(mockJson({ ...metadata, issuer: 'https://evil.example.com' }));
+
+    await expect(discoverMetadata(issuer)).rejects.toMatchObject({ error: 'invalid_issuer_metadata' });
+  });
+
+  it('should reject issuers that do not advertise S256', async () => {
+    global.fetch = vi.fn().mockResolvedValue(mockJson({ ...metadata, code_challenge_methods_supported: ['plain'] }));
+
+    await expect(discoverMetadata(issuer)).rejects.toMatchObject({ error: 'unsupported_code_challenge_method' });
+  });
+
+  it('should create a service with discovered endpoints', async () => {
+    global.fetch = vi.fn().mockResolvedValue(mockJson(metadata));
+
+    const service = await OAuth2Service.fromIssuer(issuer, {
+      clientId: 'test-client-id',
+      redirectUri: 'http://localhost:3000/callback',
+    });
+
+    expect(service.getMetadata()).toEqual(metadata);
+
+    const mockLocation = { href: '' };
+    Object.defineProperty(window, 'location', { value: mockLocation, writable: true });
+
+    await service.authorize();
+
+    expect(mockLocation.href).toContain(metadata.authorization_endpoint);
+    expect(mockLocation.href).toContain('scope=openid');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { DPoPSigner } from '../src/core/dpop';
+import { base64UrlEncode, sha256 } from '../src/utils/crypto';
+import { decodeJwt, importVerificationKey, verifyJwtSignature } from '../src/utils/jwt';
+import { MemoryTokenStore } from '../src/utils/stores';
+
+const tokenEndpoint = 'https://auth.example.com/token';
+const apiUrl = 'https://api.example.com/orders?page=2';
+
+function jsonResponse(body: unknown, init: ResponseInit = {}) {
+  return new Response(JSON.stringify(body), { status: 200, ...init });
+}
+
+describe('DPoP', () => {
+  let keyStore: MemoryTokenStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    keyStore = new MemoryTokenStore();
+  });
+
+  it('should sign proofs with the public key in the header', async () => {
+    const signer = new DPoPSigner(keyStore);
+
+    const proof = decodeJwt(await signer.createProof('get', apiUrl, 'access-token'));
+    const other = decodeJwt(await signer.createProof('GET', apiUrl));
+    const jwk = proof.header.jwk as JsonWebKey;
+
+    expect(proof.header).toMatchObject({ typ: 'dpop+jwt', alg: 'ES256' });
+    expect(jwk).not.toHaveProperty('d');
+    expect(proof.payload).toMatchObject({
+      htm: 'GET',
+      htu: 'https://api.example.com/orders',
+      ath: base64UrlEncode(await sha256('access-token')),
+    });
+    expect(other.payload).not.toHaveProperty('ath');
+    expect(other.payload.jti).not.toBe(proof.payload.jti);
+    expect(await verifyJwtSignature(proof, await importVerificationKey(jwk, 'ES256'), 'ES256')).toBe(true);
+  });
+
+  it('should keep the key pair in the key store', async () => {
+    const first = decodeJwt(await new DPoPSigner(keyStore).createProof('POST', tokenEndpoint));
+    const second = decodeJwt(await new DPoPSigner(keyStore).createProof('POST', tokenEndpoint));
+
+    expect(second.header.jwk).toEqual(first.header.jwk);
+    expect((await keyStore.getKey('oauth2_dpop_key_private'))!.extractable).toBe(false);
+  });
+
+  describe('with OAuth2Service', () => {
+    let service: OAuth2Service;
+    let requests: Request[];
+    let tokenProofs: string[];
+
+    beforeEach(() => {
+      requests = [];
+      tokenProofs = [];
+
+      service = new OAuth2Service({
+        clientId: 'test-client-id',
+        authorizationEndpoint: 'https://auth.example.com/authorize',
+        tokenEndpoint,
+        redirectUri: 'http://localhost:3000/callback',
+        autoRefresh: false,
+        dpop: true,
+        encryptionKeyStore: keyStore,
+      });
+
+      localStorage.setItem('oauth2_access_token', 'old-access-token');
+      localStorage.setItem('oauth2_token_type', 'DPoP');
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+      localStorage.setItem('oauth2_expires_at', String(Date.now() + 3600 * 1000));
+    });
+
+    it('should retry a token request once with the server nonce', async () => {
+      global.fetch = vi.fn(async (_input: RequestInfo | URL, init?: RequestInit) => {
+        tokenProofs.push(new Headers(init!.headers).get('DPoP')!);
+        return tokenProofs.length === 1
+          ? jsonResponse({ error: 'use_dpop_nonce' }, { status: 400, headers: { 'DPoP-Nonce': 'nonce-1' } })
+          : jsonResponse({ access_token: 'new-access-token', token_type: 'DPoP', expires_in: 3600 });
+      }) as typeof fetch;
+
+      await service.refreshAccessToken();
+
+      expect(tokenProofs).toHaveLength(2);
+      expect(decodeJwt(tokenProofs[0]).payload).not.toHaveProperty('nonce');
+      expect(decodeJwt(tokenProofs[1]).payload).toMatchObject({ htm: 'POST', htu: tokenEndpoint, nonce: 'nonce-1' });
+      expect(await service.getTokenType()).toBe('DPoP');
+    });
+
+    it('should send proofs with DPoP-bound resource requests', async () => {
+      global.fetch = vi.fn(async (input: RequestInfo | URL) => {
+        requests.push(input as Request);
+        return requests.length === 1
+          ? new Response(null, {
+            status: 401,
+            headers: { 'WWW-Authenticate': 'DPoP error="use_dpop_nonce"', 'DPoP-Nonce': 'api-nonce' },
+          })
+          : jsonResponse({ ok: true });
+      }) as typeof fetch;
+
+      const response = await service.fetch(apiUrl, { method: 'POST', body: 'order' });
+
+      expect(response.status).toBe(200);
+      expect(requests).toHaveLength(2);
+      expect(requests[1].headers.get('Authorization')).toBe('DPoP old-access-token');
+      expect(await requests[1].text()).toBe('order');
+      expect(decodeJwt(requests[1].headers.get('DPoP')!).payload).toMatchObject({
+        htm: 'POST',
+        htu: 'https://api.example.com/orders',
+        ath: base64UrlEncode(await sha256('old-access-token')),
+        nonce: 'api-nonce',
+      });
+    });
+
+    it('should treat a lowercase dpop token type as DPoP', async () => {
+      localStorage.setItem('oauth2_token_type', 'dpop');
+      global.fetch = vi.fn(async (input: RequestInfo | URL) => {
+        requests.push(input as Request);
+        return jsonResponse({ ok: true });
+      }) as typeof fetch;
+
+      await service.fetch(apiUrl);
+
+      expect(requests[0].headers.get('Authorization')).toBe('DPoP old-access-token');
+      expect(requests[0].headers.get('DPoP')).toBeTruthy();
+    });
+  });
+});
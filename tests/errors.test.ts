@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import {
+  InvalidResponseError,
+  NetworkError,
+  OAuth2ClientError,
+  ProviderError,
+  StateMismatchError,
+  TimeoutError,
+  readJsonResponse,
+  sendRequest,
+} from '../src/core/errors';
+import { CLIENT_ERROR_CODES } from '../src/core/constants';
+
+describe('errors', () => {
+  it('should turn OAuth2 error responses into a ProviderError with the status', async () => {
+    const response = new Response(
+      JSON.stringify({ error: 'invalid_grant', error_description: 'Code expired', error_uri: 'https://docs.example.com' }),
+      { status: 400 }
+    );
+
+    const error = await readJsonResponse(response).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toBeInstanceOf(OAuth2ClientError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'ProviderError',
+      code: 'invalid_grant',
+      error_description: 'Code expired',
+      error_uri: 'https://docs.example.com',
+      status: 400,
+      message: 'Code expired',
+    });
+  });
+
+  it('should reject bodies that are not JSON or not an OAuth2 error', async () => {
+    const html = await readJsonResponse(new Response('<h1>Bad Gateway</h1>', { status: 502 })).catch(e => e);
+    const other = await readJsonResponse(new Response(JSON.stringify({ message: 'nope' }), { status: 500 })).catch(e => e);
+
+    expect(html).toBeInstanceOf(InvalidResponseError);
+    expect(html).toMatchObject({ code: CLIENT_ERROR_CODES.INVALID_RESPONSE, status: 502 });
+    expect(html.cause).toBeInstanceOf(SyntaxError);
+    expect(other).toMatchObject({ code: CLIENT_ERROR_CODES.INVALID_RESPONSE, status: 500 });
+  });
+
+  it('should wrap fetch failures in a NetworkError but pass abort reasons through', async () => {
+    const failure = new TypeError('Failed to fetch');
+    const timeout = new TimeoutError(CLIENT_ERROR_CODES.REVOCATION_TIMEOUT, 'Token revocation timed out');
+
+    const network = await sendRequest(vi.fn().mockRejectedValue(failure), 'https://auth.example.com').catch(e => e);
+    const aborted = await sendRequest(vi.fn().mockRejectedValue(timeout), 'https://auth.example.com').catch(e => e);
+
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network).toMatchObject({ code: CLIENT_ERROR_CODES.NETWORK_ERROR, cause: failure });
+    expect(aborted).toBe(timeout);
+  });
+
+  it('should convert unknown errors with OAuth2ClientError.from', () => {
+    const existing = new StateMismatchError();
+
+    expect(OAuth2ClientError.from(existing, 'login_failed')).toBe(existing);
+    expect(OAuth2ClientError.from({ error: 'access_denied' }, 'login_failed')).toMatchObject({ code: 'access_denied' });
+    expect(OAuth2ClientError.from(new Error('boom'), 'login_failed')).toMatchObject({
+      code: 'login_failed',
+      error_description: 'boom',
+    });
+  });
+});
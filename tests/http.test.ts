@@ -0,0 +1,42 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { Agent, createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { createAgentFetch } from '../src/node/http';
+
+describe('createAgentFetch', () => {
+  it('should send requests through the agent', async () => {
+    const server = createServer(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ method: req.method, contentType: req.headers['content-type'], body }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+
+    const agent = new Agent();
+    const createConnection = vi.spyOn(agent, 'createConnection');
+
+    try {
+      const agentFetch = createAgentFetch(agent);
+      const response = await agentFetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'grant_type=client_credentials',
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        method: 'POST',
+        contentType: 'application/x-www-form-urlencoded',
+        body: 'grant_type=client_credentials',
+      });
+      expect(createConnection).toHaveBeenCalledOnce();
+    } finally {
+      agent.destroy();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
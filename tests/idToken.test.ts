@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { validateIdToken } from '../src/core/idToken';
+import { clearJwksCache, getSigningKey } from '../src/core/jwks';
+import { base64UrlEncode } from '../src/utils/crypto';
+
+const issuer = 'https://auth.example.com';
+const clientId = 'test-client-id';
+const jwksUri = `${issuer}/jwks`;
+
+let rsaKeys: CryptoKeyPair;
+let ecKeys: CryptoKeyPair;
+let jwks: { keys: JsonWebKey[] };
+
+function encodeJson(value: unknown): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer);
+}
+
+async function signJwt(claims: Record<string, unknown>, alg: 'RS256' | 'ES256' = 'RS256'): Promise<string> {
+  const header = { alg, kid: alg === 'RS256' ? 'rsa-key' : 'ec-key', typ: 'JWT' };
+  const signingInput = `${encodeJson(header)}.${encodeJson(claims)}`;
+  const signature = alg === 'RS256'
+    ? await crypto.subtle.sign({ name: 'RSASSA-PKCS1-v1_5' }, rsaKeys.privateKey, new TextEncoder().encode(signingInput))
+    : await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, ecKeys.privateKey, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return { iss: issuer, sub: 'user-123', aud: clientId, iat: now, exp: now + 3600, ...overrides };
+}
+
+const options = { issuer, clientId, jwksUri, clockSkew: 60 };
+
+describe('validateIdToken', () => {
+  beforeAll(async () => {
+    rsaKeys = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    );
+    ecKeys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+
+    jwks = {
+      keys: [
+        { ...(await crypto.subtle.exportKey('jwk', rsaKeys.publicKey)), kid: 'rsa-key', use: 'sig' } as JsonWebKey,
+        { ...(await crypto.subtle.exportKey('jwk', ecKeys.publicKey)), kid: 'ec-key', use: 'sig' } as JsonWebKey,
+      ],
+    };
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    clearJwksCache();
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => jwks });
+  });
+
+  it('should accept RS256 and ES256 tokens with valid claims', async () => {
+    await expect(validateIdToken(await signJwt(claims()), options)).resolves.toMatchObject({ sub: 'user-123' });
+    await expect(validateIdToken(await signJwt(claims(), 'ES256'), options)).resolves.toMatchObject({ sub: 'user-123' });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a tampered signature', async () => {
+    const token = await signJwt(claims());
+    const [header, , signature] = token.split('.');
+    const forged = `${header}.${encodeJson(claims({ sub: 'admin' }))}.${signature}`;
+
+    await expect(validateIdToken(forged, options)).rejects.toMatchObject({ error: 'invalid_id_token' });
+  });
+
+  it('should check issuer, audience, azp and timestamps', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const invalid = [
+      claims({ iss: 'https://evil.example.com' }),
+      claims({ aud: 'other-client' }),
+      claims({ aud: [clientId, 'other-client'] }),
+      claims({ exp: now - 120 }),
+      claims({ iat: now + 120 }),
+      claims({ nbf: now + 120 }),
+    ];
+
+    for (const payload of invalid) {
+      await expect(validateIdToken(await signJwt(payload), options)).rejects.toMatchObject({ error: 'invalid_id_token' });
+    }
+
+    await expect(validateIdToken(await signJwt(claims({ exp: now - 30 })), options)).resolves.toBeDefined();
+  });
+
+  it('should reject JWKS failures with typed errors', async () => {
+    await expect(getSigningKey(jwksUri, 'unknown-key', 'RS256')).rejects.toMatchObject({ code: 'jwks_failed' });
+
+    clearJwksCache();
+    global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 503, json: async () => ({}) });
+    await expect(getSigningKey(jwksUri, 'rsa-key', 'RS256')).rejects.toMatchObject({ code: 'jwks_failed', status: 503 });
+  });
+
+  it('should not store tokens when the ID token is rejected', async () => {
+    const service = new OAuth2Service({
+      clientId,
+      issuer,
+      jwksUri,
+      authorizationEndpoint: `${issuer}/authorize`,
+      tokenEndpoint: `${issuer}/token`,
+      redirectUri: 'http://localhost:3000/callback',
+    });
+
+    localStorage.setItem('oauth2_state', 'test-state');
+    localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+
+    const idToken = await signJwt(claims({ aud: 'other-client' }));
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: 'test-access-token', id_token: idToken, expires_in: 3600 }),
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => jwks });
+
+    await expect(
+      service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state')
+    ).rejects.toMatchObject({ error: 'invalid_id_token' });
+
+    expect(await service.isAuthenticated()).toBe(false);
+    expect(localStorage.getItem('oauth2_id_token')).toBeNull();
+  });
+
+  it('should reject a refreshed ID token for another subject', async () => {
+    const service = new OAuth2Service({
+      clientId,
+      issuer,
+      jwksUri,
+      authorizationEndpoint: `${issuer}/authorize`,
+      tokenEndpoint: `${issuer}/token`,
+      redirectUri: 'http://localhost:3000/callback',
+    });
+    await service.ready;
+
+    localStorage.setItem('oauth2_access_token', 'test-access-token');
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    localStorage.setItem('oauth2_id_token', await signJwt(claims()));
+
+    const idToken = await signJwt(claims({ sub: 'other-user' }));
+    global.fetch = vi.fn().mockImplementation(async (url: string) => url === jwksUri
+      ? { ok: true, json: async () => jwks }
+      : { ok: true, json: async () => ({ access_token: 'new-access-token', id_token: idToken, expires_in: 3600 }) });
+
+    await expect(service.refreshAccessToken()).rejects.toMatchObject({
+      error: 'invalid_id_token',
+      error_description: 'Refreshed ID token does not match the issuer and subject of the session',
+    });
+
+    expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+    expect(await service.getUser()).toBeNull();
+  });
+});
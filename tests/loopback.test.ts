@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { loginWithLoopback } from '../src/node/loopback';
+
+const realFetch = globalThis.fetch;
+
+describe('loopback login', () => {
+  let service: OAuth2Service;
+
+  beforeEach(() => {
+    service = new OAuth2Service({
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint: 'https://auth.example.com/token',
+      redirectUri: 'http://127.0.0.1/callback',
+    });
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'cli-access-token', expires_in: 3600 }),
+    });
+  });
+
+  it('should capture the code on an ephemeral loopback port', async () => {
+    let page: Promise<Response> | undefined;
+    let redirectUri = '';
+
+    const tokens = await loginWithLoopback(service, {
+      successHtml: '<p>Done</p>',
+      openUrl: url => {
+        const params = new URL(url).searchParams;
+        redirectUri = params.get('redirect_uri')!;
+        page = realFetch(`${redirectUri}?code=test-code&state=${params.get('state')}`);
+      },
+    });
+
+    expect(redirectUri).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+    expect(tokens.access_token).toBe('cli-access-token');
+    expect(await (await page!).text()).toBe('<p>Done</p>');
+
+    const body = new URLSearchParams(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+    expect(body.get('redirect_uri')).toBe(redirectUri);
+    await expect(realFetch(redirectUri)).rejects.toThrow();
+  });
+
+  it('should fail on a state mismatch', async () => {
+    let page: Promise<Response> | undefined;
+
+    await expect(loginWithLoopback(service, {
+      openUrl: url => {
+        page = realFetch(`${new URL(url).searchParams.get('redirect_uri')}?code=test-code&state=forged-state`);
+      },
+    })).rejects.toThrow('Invalid state parameter');
+
+    expect((await page!).status).toBe(400);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should time out without a redirect', async () => {
+    await expect(loginWithLoopback(service, { timeout: 0.05, openUrl: () => {} }))
+      .rejects.toMatchObject({ error: 'loopback_timeout' });
+  });
+});
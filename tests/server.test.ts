@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { SessionTokenStore } from '../src/utils/stores';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('server-side usage', () => {
+  let config: OAuth2Config;
+
+  beforeEach(() => {
+    config = {
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint: 'https://auth.example.com/token',
+      redirectUri: 'https://app.example.com/callback',
+      logoutEndpoint: 'https://auth.example.com/logout',
+      useNonce: true,
+    };
+  });
+
+  it('should run the code flow without a window', async () => {
+    const session: Record<string, unknown> = {};
+    const service = new OAuth2Service({ ...config, storage: new SessionTokenStore(session) });
+    await service.ready;
+
+    const request = await service.createAuthorizationUrl();
+    const url = new URL(request.url);
+    expect(url.searchParams.get('state')).toBe(request.state);
+    expect(url.searchParams.get('nonce')).toBe(request.nonce);
+    expect(session).toEqual({});
+
+    const idToken = ['{"alg":"none"}', JSON.stringify({ sub: 'user-123', nonce: request.nonce }), '']
+      .map(part => Buffer.from(part).toString('base64url'))
+      .join('.');
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'test-access-token', id_token: idToken, expires_in: 3600 }),
+    });
+
+    const tokens = await service.exchangeCode({
+      callbackUrl: `https://app.example.com/callback?code=test-code&state=${request.state}`,
+      state: request.state,
+      codeVerifier: request.codeVerifier,
+      nonce: request.nonce,
+    });
+
+    const body = new URLSearchParams(vi.mocked(global.fetch).mock.calls[0][1]!.body as string);
+    expect(body.get('code_verifier')).toBe(request.codeVerifier);
+    expect(tokens.access_token).toBe('test-access-token');
+    expect(session.oauth2_access_token).toBe('test-access-token');
+    expect((await service.getUser())?.sub).toBe('user-123');
+
+    await service.logout();
+    expect(session.oauth2_access_token).toBeUndefined();
+    expect(service.createLogoutUrl('https://app.example.com/')).toBe(
+      'https://auth.example.com/logout?client_id=test-client-id&post_logout_redirect_uri=https%3A%2F%2Fapp.example.com%2F'
+    );
+  });
+
+  it('should reject a callback with a different state', async () => {
+    const service = new OAuth2Service(config);
+    const request = await service.createAuthorizationUrl();
+
+    await expect(service.exchangeCode({
+      callbackUrl: 'https://app.example.com/callback?code=test-code&state=forged-state',
+      state: request.state,
+      codeVerifier: request.codeVerifier,
+    })).rejects.toThrow('Invalid state parameter');
+  });
+});
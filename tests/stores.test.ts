@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import { EncryptedTokenStore, IndexedDBTokenStore, MemoryTokenStore, getOrCreateKey } from '../src/utils/stores';
+
+describe('token stores', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep tokens in a custom store', async () => {
+    const store = new MemoryTokenStore();
+    await store.setItem('oauth2_state', 'test-state');
+    await store.setItem('oauth2_code_verifier', 'test-verifier');
+
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ access_token: 'test-access-token', expires_in: 3600 }),
+    });
+
+    const service = new OAuth2Service({
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint: 'https://auth.example.com/token',
+      redirectUri: 'http://localhost:3000/callback',
+      autoRefresh: false,
+      storage: store,
+    });
+    await service.ready;
+
+    await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+
+    expect(await store.getItem('oauth2_access_token')).toBe('test-access-token');
+    expect(await store.getItem('oauth2_state')).toBeNull();
+    expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+  });
+
+  it('should generate a key only once', async () => {
+    const store = new MemoryTokenStore();
+    const generate = vi.fn(() => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt']));
+
+    const first = await getOrCreateKey(store, 'test-key', generate);
+    const second = await getOrCreateKey(store, 'test-key', generate);
+
+    expect(second).toBe(first);
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  describe('IndexedDB', () => {
+    beforeEach(() => {
+      vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should commit writes before they resolve', async () => {
+      const store = new IndexedDBTokenStore();
+      await store.setItem('oauth2_access_token', 'test-access-token');
+
+      // A second connection only sees committed transactions
+      const other = new IndexedDBTokenStore();
+      expect(await other.getItem('oauth2_access_token')).toBe('test-access-token');
+
+      await store.removeItem('oauth2_access_token');
+      expect(await other.getItem('oauth2_access_token')).toBeNull();
+    });
+
+    it('should persist non-extractable keys', async () => {
+      const store = new IndexedDBTokenStore();
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+      await store.setKey('oauth2_token_key', key);
+      const loaded = await new IndexedDBTokenStore().getKey('oauth2_token_key');
+
+      expect(loaded).toMatchObject({ extractable: false, algorithm: { name: 'AES-GCM' } });
+      await store.removeKey('oauth2_token_key');
+      expect(await store.getKey('oauth2_token_key')).toBeNull();
+    });
+
+    it('should back encrypted tokens as the default key store', async () => {
+      localStorage.setItem('oauth2_state', 'test-state');
+      localStorage.setItem('oauth2_code_verifier', 'test-verifier');
+      const service = new OAuth2Service({
+        clientId: 'test-client-id',
+        authorizationEndpoint: 'https://auth.example.com/authorize',
+        tokenEndpoint: 'https://auth.example.com/token',
+        redirectUri: 'http://localhost:3000/callback',
+        autoRefresh: false,
+        encryptTokens: true,
+      });
+      await service.ready;
+
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: 'test-access-token', expires_in: 3600 }),
+      });
+      await service.handleCallback('http://localhost:3000/callback?code=test-code&state=test-state');
+
+      expect(localStorage.getItem('oauth2_access_token')).toMatch(/^enc:v1:/);
+      expect(await new IndexedDBTokenStore().getKey('oauth2_token_key')).not.toBeNull();
+    });
+  });
+
+  describe('encryption', () => {
+    const config = {
+      clientId: 'test-client-id',
+      authorizationEndpoint: 'https://auth.example.com/authorize',
+      tokenEndpoint: 'https://auth.example.com/token',
+      redirectUri: 'http://localhost:3000/callback',
+      autoRefresh: false,
+      encryptTokens: true,
+    };
+
+    let keyStore: MemoryTokenStore;
+
+    beforeEach(() => {
+      keyStore = new MemoryTokenStore();
+    });
+
+    it('should keep only sealed values in the backing store', async () => {
+      const backing = new MemoryTokenStore();
+      const encrypted = new EncryptedTokenStore(backing, keyStore);
+
+      await encrypted.setItem('oauth2_access_token', 'secret-token');
+
+      expect(await backing.getItem('oauth2_access_token')).toMatch(/^enc:v1:/);
+      expect(await encrypted.getItem('oauth2_access_token')).toBe('secret-token');
+    });
+
+    it('should migrate plaintext values when encryption is enabled', async () => {
+      localStorage.setItem('oauth2_access_token', 'plain-token');
+      localStorage.setItem('oauth2_token_type', 'Bearer');
+
+      const service = new OAuth2Service({ ...config, encryptionKeyStore: keyStore });
+      await service.ready;
+
+      expect(await service.getAccessToken()).toBe('plain-token');
+      expect(localStorage.getItem('oauth2_access_token')).toMatch(/^enc:v1:/);
+      // Sealed too, though nothing has read it yet
+      expect(localStorage.getItem('oauth2_token_type')).toMatch(/^enc:v1:/);
+    });
+
+    it('should reject plaintext values once encryption is set up', async () => {
+      await new EncryptedTokenStore(new MemoryTokenStore(), keyStore).setItem('oauth2_scope', 'openid');
+      localStorage.setItem('oauth2_access_token', 'swapped-in-token');
+
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const service = new OAuth2Service({ ...config, encryptionKeyStore: keyStore });
+      await service.ready;
+
+      expect(await service.getAccessToken()).toBeNull();
+      expect(localStorage.getItem('oauth2_access_token')).toBeNull();
+    });
+
+    it('should clear the session when a value was tampered with', async () => {
+      const backing = new MemoryTokenStore();
+      await new EncryptedTokenStore(backing, keyStore).setItem('oauth2_access_token', 'secret-token');
+      const sealed = (await backing.getItem('oauth2_access_token'))!;
+      localStorage.setItem('oauth2_access_token', sealed.slice(0, -2) + (sealed.endsWith('A') ? 'BB' : 'AA'));
+      localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+
+      const onAuthStateChange = vi.fn();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const service = new OAuth2Service({ ...config, encryptionKeyStore: keyStore, onAuthStateChange });
+      await service.ready;
+
+      expect(await service.getAccessToken()).toBeNull();
+      expect(localStorage.getItem('oauth2_refresh_token')).toBeNull();
+      expect(onAuthStateChange).toHaveBeenCalledWith(false);
+    });
+  });
+});
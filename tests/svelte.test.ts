@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { createAuth } from '../src/svelte';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('Svelte bindings', () => {
+  const config: OAuth2Config = {
+    clientId: 'test-client-id',
+    authorizationEndpoint: 'https://auth.example.com/authorize',
+    tokenEndpoint: 'https://auth.example.com/token',
+    redirectUri: 'http://localhost:3000/callback',
+    autoRefresh: false,
+    refreshRetryAttempts: 0,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should publish the service state to subscribers', async () => {
+    localStorage.setItem('oauth2_access_token', 'test-access-token');
+    const service = new OAuth2Service(config);
+    const auth = createAuth(service);
+    const states: boolean[] = [];
+    const unsubscribe = auth.subscribe(({ isAuthenticated }) => {
+      if (states[states.length - 1] !== isAuthenticated) {
+        states.push(isAuthenticated);
+      }
+    });
+
+    await service.ready;
+    await auth.logout();
+    unsubscribe();
+
+    expect(states).toEqual([false, true, false]);
+    expect(get(auth).isLoading).toBe(false);
+  });
+
+  it('should surface refresh failures in the store', async () => {
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const auth = createAuth(config);
+
+    await auth.refresh();
+
+    expect(get(auth).error).toMatchObject({ name: 'NetworkError', code: 'network_error' });
+  });
+});
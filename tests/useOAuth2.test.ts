@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { createElement, StrictMode } from 'react';
+import { useOAuth2 } from '../src/react/useOAuth2';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('useOAuth2', () => {
+  const config: OAuth2Config = {
+    clientId: 'test-client-id',
+    authorizationEndpoint: 'https://auth.example.com/authorize',
+    tokenEndpoint: 'https://auth.example.com/token',
+    redirectUri: 'http://localhost:3000/callback',
+    autoRefresh: false,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should follow the service state, including logouts it starts itself', async () => {
+    localStorage.setItem('oauth2_access_token', 'test-access-token');
+    localStorage.setItem('oauth2_expires_at', String(Date.now() + 60000));
+
+    const { result } = renderHook(() => useOAuth2(config));
+    expect(result.current.isLoading).toBe(true);
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current).toMatchObject({ isAuthenticated: true, accessToken: 'test-access-token' });
+
+    // getToken() ends the session once the token has expired
+    localStorage.setItem('oauth2_expires_at', String(Date.now() - 1000));
+    await act(() => result.current.getToken());
+
+    expect(result.current.isAuthenticated).toBe(false);
+  });
+
+  it('should surface refresh failures as typed errors', async () => {
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    global.fetch = vi.fn().mockResolvedValue(new Response('Service Unavailable', { status: 503 }));
+
+    const noRetryConfig = { ...config, refreshRetryAttempts: 0 };
+    const { result } = renderHook(() => useOAuth2(noRetryConfig));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.refresh());
+
+    expect(result.current.error).toMatchObject({ name: 'InvalidResponseError', code: 'invalid_response', status: 503 });
+  });
+
+  it('should destroy the service when it is replaced or unmounted', async () => {
+    const destroy = vi.spyOn(OAuth2Service.prototype, 'destroy');
+
+    const { rerender, unmount } = renderHook(({ options }) => useOAuth2(options), { initialProps: { options: config } });
+    rerender({ options: { ...config } });
+    expect(destroy).toHaveBeenCalledTimes(1);
+
+    unmount();
+    expect(destroy).toHaveBeenCalledTimes(2);
+    destroy.mockRestore();
+  });
+
+  it('should keep a live service under StrictMode', async () => {
+    localStorage.setItem('oauth2_refresh_token', 'test-refresh-token');
+    global.fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ access_token: 'new-access-token', expires_in: 3600 })));
+    const onRefreshEvent = vi.fn();
+    const strictConfig = { ...config, onRefreshEvent };
+
+    const { result } = renderHook(() => useOAuth2(strictConfig), {
+      wrapper: ({ children }) => createElement(StrictMode, null, children),
+    });
+    await waitFor(() => expect(result.current.isInitializing).toBe(false));
+
+    await act(() => result.current.refresh());
+
+    expect(onRefreshEvent).toHaveBeenCalledWith({ type: 'refresh_succeeded', rotated: false });
+    expect(result.current.accessToken).toBe('new-access-token');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createApp, defineComponent, h, nextTick } from 'vue';
+import { createOAuth2, useAuth, UseAuthReturn } from '../src/vue';
+import { OAuth2Service } from '../src/core/OAuth2Service';
+import type { OAuth2Config } from '../src/core/types';
+
+describe('Vue bindings', () => {
+  const config: OAuth2Config = {
+    clientId: 'test-client-id',
+    authorizationEndpoint: 'https://auth.example.com/authorize',
+    tokenEndpoint: 'https://auth.example.com/token',
+    redirectUri: 'http://localhost:3000/callback',
+    autoRefresh: false,
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  function mountWithAuth(plugin: ReturnType<typeof createOAuth2>) {
+    let auth!: UseAuthReturn;
+    const app = createApp(defineComponent({
+      setup() {
+        auth = useAuth();
+        return () => h('span', auth.isAuthenticated.value ? 'in' : 'out');
+      },
+    }));
+    app.use(plugin);
+    const root = document.createElement('div');
+    app.mount(root);
+    return { auth, root, app };
+  }
+
+  it('should expose the service state as refs', async () => {
+    localStorage.setItem('oauth2_access_token', 'test-access-token');
+    const service = new OAuth2Service(config);
+    const { auth, root, app } = mountWithAuth(createOAuth2(service));
+
+    expect(auth.isLoading.value).toBe(true);
+    await service.ready;
+    await nextTick();
+
+    expect(auth.accessToken.value).toBe('test-access-token');
+    expect(root.textContent).toBe('in');
+
+    await auth.logout();
+    await nextTick();
+
+    expect(auth.isAuthenticated.value).toBe(false);
+    expect(root.textContent).toBe('out');
+    app.unmount();
+  });
+
+  it('should require the plugin', () => {
+    const app = createApp(defineComponent({
+      setup() {
+        useAuth();
+        return () => null;
+      },
+    }));
+    app.config.warnHandler = () => {};
+    let error: unknown;
+    app.config.errorHandler = e => {
+      error = e;
+    };
+
+    app.mount(document.createElement('div'));
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('createOAuth2()');
+  });
+});
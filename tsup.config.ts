@@ -1,15 +1,23 @@
 import { defineConfig } from 'tsup';
 
+// One build, so the entry points share a single copy of the core through common
+// chunks and instanceof checks work across them
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    node: 'src/node/index.ts',
+    vue: 'src/vue/index.ts',
+    svelte: 'src/svelte/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
-  splitting: false,
+  splitting: true,
   sourcemap: true,
   clean: true,
   minify: process.env.NODE_ENV === 'production',
   treeshake: true,
-  external: ['react'],
+  // Node built-ins are only reached from the node entry
+  external: ['react', 'vue', 'svelte', 'svelte/store', 'crypto', 'http', 'https', 'net', 'stream', 'tls'],
   globalName: 'OAuth2PKCE',
   platform: 'browser',
   target: 'es2020',